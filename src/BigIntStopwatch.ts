@@ -0,0 +1,382 @@
+import {
+    createHrtimeBigIntTimeGetter,
+    GetBigIntTimeFunc
+} from "./bigintClocks";
+import { Stopwatch } from "./Stopwatch";
+
+/**
+ * A variant of {@link Stopwatch} that records time as BigInt values, so that no precision
+ * is lost to floating point arithmetic when measuring very short durations with
+ * a high resolution source of time (e.g., nanoseconds).
+ *
+ * Usage and behavior are the same as {@link Stopwatch}, except that all times
+ * and durations are BigInt values.
+ *
+ * By default, BigIntStopwatch uses Node's `process.hrtime.bigint()`, which measures
+ * time in nanoseconds. In other runtime environments, a custom "system time getter"
+ * must be provided to the constructor.
+ *
+ * @template M - The type of metadata that may be attached to recorded slices.
+ */
+export class BigIntStopwatch<M = unknown> {
+    /**
+     * The system time at which the stopwatch was started.
+     * Undefined if the stopwatch is not yet started, or has been reset.
+     */
+    private startSystemTime: bigint | undefined;
+
+    /**
+     * The system time at which the stopwatch was stopped.
+     * Undefined if the stopwatch is not currently stopped,
+     * is not yet started, or has been reset.
+     */
+    private stopSystemTime: bigint | undefined;
+
+    /**
+     * The total amount of system time the stopwatch has been stopped since
+     * the last reset.
+     */
+    private stopDuration: bigint = ZERO;
+
+    /**
+     * The stopwatch time at which the current pending slice was started.
+     * Undefined if the stopwatch is not yet started, or has been reset.
+     */
+    private pendingSliceStartStopwatchTime: bigint | undefined;
+
+    /**
+     * Recorded results of all completed slices since the the last reset.
+     */
+    private completedSlices: BigIntStopwatch.Slice<M>[] = [];
+
+    /**
+     * A callback that returns the current system time.
+     */
+    private readonly getSystemTime: GetBigIntTimeFunc;
+
+    /**
+     * Creates a new BigIntStopwatch instance.
+     * The unit of all durations reported by this instance will match the
+     * unit of time returned by the provided `getSystemTime` param.
+     *
+     * @param getSystemTime - A callback that returns the current system time.
+     *        Defaults to Node's `process.hrtime.bigint()` (nanoseconds).
+     * @throws Error if `getSystemTime` is not provided and `process.hrtime.bigint()`
+     *         is not available.
+     */
+    public constructor(getSystemTime?: GetBigIntTimeFunc) {
+        this.getSystemTime = getSystemTime || createHrtimeBigIntTimeGetter();
+    }
+
+    /**
+     * Get the current state of this stopwatch.
+     *
+     * @return the current state of this stopwatch.
+     */
+    public getState(): Stopwatch.State {
+        if (this.startSystemTime === undefined) {
+            return Stopwatch.State.IDLE;
+        } else if (this.stopSystemTime === undefined) {
+            return Stopwatch.State.RUNNING;
+        } else {
+            return Stopwatch.State.STOPPED;
+        }
+    }
+
+    /**
+     * Test if this stopwatch is currently {@link Stopwatch.State#IDLE}.
+     *
+     * @return true if this stopwatch is currently {@link Stopwatch.State#IDLE}.
+     */
+    public isIdle(): boolean {
+        return this.getState() === Stopwatch.State.IDLE;
+    }
+
+    /**
+     * Test if this stopwatch is currently {@link Stopwatch.State#RUNNING}.
+     *
+     * @return true if this stopwatch is currently {@link Stopwatch.State#RUNNING}.
+     */
+    public isRunning(): boolean {
+        return this.getState() === Stopwatch.State.RUNNING;
+    }
+
+    /**
+     * Test if this stopwatch is currently {@link Stopwatch.State#STOPPED}.
+     *
+     * @return true if this stopwatch is currently {@link Stopwatch.State#STOPPED}.
+     */
+    public isStopped(): boolean {
+        return this.getState() === Stopwatch.State.STOPPED;
+    }
+
+    /**
+     * Get the current stopwatch time.
+     * See {@link Stopwatch#getTime}.
+     *
+     * @return the current stopwatch time.
+     */
+    public getTime(): bigint {
+        return this.calculateStopwatchTime();
+    }
+
+    /**
+     * Get details about the current pending slice for this stopwatch, as of now.
+     * See {@link Stopwatch#getPendingSlice}.
+     *
+     * @return details about the current pending slice for this stopwatch, as of now.
+     */
+    public getPendingSlice(): BigIntStopwatch.Slice<M> {
+        return this.calculatePendingSlice();
+    }
+
+    /**
+     * Get a list of all completed/recorded slices for this stopwatch since the last reset.
+     * @return a list of all completed/recorded slices for this stopwatch since the last reset.
+     */
+    public getCompletedSlices(): BigIntStopwatch.Slice<M>[] {
+        return Array.from(this.completedSlices);
+    }
+
+    /**
+     * Get a list of all completed/recorded slices for this stopwatch since the last reset,
+     * plus the current pending slice.
+     * @return a list of all completed/recorded slices for this stopwatch since the last reset,
+     * plus the current pending slice.
+     */
+    public getCompletedAndPendingSlices(): BigIntStopwatch.Slice<M>[] {
+        return [...this.completedSlices, this.getPendingSlice()];
+    }
+
+    /**
+     * Starts (or resumes) running this stopwatch.
+     * See {@link Stopwatch#start}.
+     *
+     * @param forceReset - If true, then the stopwatch is {@link #reset} before starting.
+     */
+    public start(forceReset: boolean = false): void {
+        if (forceReset) {
+            this.reset();
+        }
+
+        if (this.stopSystemTime !== undefined) {
+            // Accumulate duration of stop, and resume running
+            this.stopDuration += this.getSystemTime() - this.stopSystemTime;
+            this.stopSystemTime = undefined;
+        } else if (this.startSystemTime === undefined) {
+            // Record initial start time
+            this.startSystemTime = this.getSystemTime();
+            this.pendingSliceStartStopwatchTime = ZERO;
+        }
+    }
+
+    /**
+     * Ends the currently pending slice, records it, and starts the next pending slice.
+     * See {@link Stopwatch#slice}.
+     *
+     * @param label - An optional label for the recorded slice.
+     * @param metadata - Optional arbitrary metadata for the recorded slice.
+     * @returns the recorded slice.
+     */
+    public slice(label?: string, metadata?: M): BigIntStopwatch.Slice<M> {
+        return this.recordPendingSlice(undefined, label, metadata);
+    }
+
+    /**
+     * Stops (pauses) this stopwatch and returns the current {@link #getTime} result.
+     * See {@link Stopwatch#stop}.
+     *
+     * @param recordPendingSlice - If true, then also end/record the current pending slice.
+     * @param label - An optional label for the recorded slice.
+     *        Ignored if `recordPendingSlice` is false.
+     * @param metadata - Optional arbitrary metadata for the recorded slice.
+     *        Ignored if `recordPendingSlice` is false.
+     * @return the current {@link #getTime} result.
+     */
+    public stop(
+        recordPendingSlice: boolean = false,
+        label?: string,
+        metadata?: M
+    ): bigint {
+        if (this.startSystemTime === undefined) {
+            return ZERO;
+        }
+
+        const systemTimeOfStopwatchTime =
+            this.stopSystemTime === undefined
+                ? this.getSystemTime()
+                : this.stopSystemTime;
+
+        if (recordPendingSlice) {
+            this.recordPendingSlice(
+                this.calculateStopwatchTime(systemTimeOfStopwatchTime),
+                label,
+                metadata
+            );
+        }
+
+        this.stopSystemTime = systemTimeOfStopwatchTime;
+
+        return this.getTime();
+    }
+
+    /**
+     * Completely resets this stopwatch to its initial state.
+     * See {@link Stopwatch#reset}.
+     */
+    public reset(): void {
+        this.startSystemTime = this.pendingSliceStartStopwatchTime = this.stopSystemTime = undefined;
+        this.stopDuration = ZERO;
+        this.completedSlices = [];
+    }
+
+    /**
+     * Calculates the current stopwatch time as of a specified system time.
+     * @param endSystemTime - The end system time for the calculation.
+     * @return the current stopwatch time as of the specified system time.
+     */
+    private calculateStopwatchTime(endSystemTime?: bigint): bigint {
+        if (this.startSystemTime === undefined) {
+            return ZERO;
+        }
+
+        if (endSystemTime === undefined) {
+            endSystemTime =
+                this.stopSystemTime === undefined
+                    ? this.getSystemTime()
+                    : this.stopSystemTime;
+        }
+
+        return endSystemTime - this.startSystemTime - this.stopDuration;
+    }
+
+    /**
+     * Calculates the current pending slice as of a specified stopwatch time.
+     * @param endStopwatchTime - The end stopwatch time for the calculation.
+     * @return the current pending slice as of the specified stopwatch time.
+     */
+    private calculatePendingSlice(
+        endStopwatchTime?: bigint
+    ): BigIntStopwatch.Slice<M> {
+        if (this.pendingSliceStartStopwatchTime === undefined) {
+            return createSlice<M>(ZERO, ZERO);
+        }
+
+        if (endStopwatchTime === undefined) {
+            endStopwatchTime = this.getTime();
+        }
+
+        return createSlice<M>(
+            this.pendingSliceStartStopwatchTime,
+            endStopwatchTime
+        );
+    }
+
+    /**
+     * Private implementation of ending/recording the currently pending slice.
+     * @param endStopwatchTime - The end stopwatch time of the slice.
+     * @param label - An optional label for the slice.
+     * @param metadata - Optional arbitrary metadata for the slice.
+     * @return the recorded slice.
+     */
+    private recordPendingSlice(
+        endStopwatchTime?: bigint,
+        label?: string,
+        metadata?: M
+    ): BigIntStopwatch.Slice<M> {
+        if (this.pendingSliceStartStopwatchTime === undefined) {
+            return this.calculatePendingSlice();
+        }
+
+        if (endStopwatchTime === undefined) {
+            endStopwatchTime = this.getTime();
+        }
+
+        const slice = createSlice(
+            this.pendingSliceStartStopwatchTime,
+            endStopwatchTime,
+            label,
+            metadata
+        );
+
+        // Start the next pending slice
+        this.pendingSliceStartStopwatchTime = slice.endTime;
+
+        // Record the slice
+        this.completedSlices.push(slice);
+
+        return slice;
+    }
+}
+
+export namespace BigIntStopwatch {
+    /**
+     * Measurements of a single "slice" recorded by a {@link BigIntStopwatch}.
+     * See {@link Stopwatch.Slice}.
+     *
+     * @template M - The type of the slice's metadata.
+     */
+    export interface Slice<M = unknown> {
+        /**
+         * The stopwatch time at the start of this slice.
+         */
+        readonly startTime: bigint;
+        /**
+         * The stopwatch time at the end of this slice.
+         */
+        readonly endTime: bigint;
+        /**
+         * The running duration of this slice (a.k.a., "split time").
+         */
+        readonly duration: bigint;
+        /**
+         * The label this slice was recorded with, if any.
+         */
+        readonly label?: string;
+        /**
+         * The arbitrary metadata this slice was recorded with, if any.
+         */
+        readonly metadata?: M;
+    }
+}
+
+/**
+ * BigInt zero.
+ */
+const ZERO = BigInt(0);
+
+/**
+ * Creates a new read-only {@link BigIntStopwatch.Slice}.
+ * The `label` and `metadata` properties are only included if they are defined.
+ * @param startTime - The stopwatch time at the start of the slice.
+ * @param endTime - The stopwatch time at the end of the slice.
+ * @param label - An optional label for the slice.
+ * @param metadata - Optional arbitrary metadata for the slice.
+ * @return a new read-only slice.
+ */
+function createSlice<M>(
+    startTime: bigint,
+    endTime: bigint,
+    label?: string,
+    metadata?: M
+): BigIntStopwatch.Slice<M> {
+    const slice: {
+        -readonly [P in keyof BigIntStopwatch.Slice<M>]: BigIntStopwatch.Slice<
+            M
+        >[P];
+    } = {
+        startTime: startTime,
+        endTime: endTime,
+        duration: endTime - startTime
+    };
+
+    if (label !== undefined) {
+        slice.label = label;
+    }
+
+    if (metadata !== undefined) {
+        slice.metadata = metadata;
+    }
+
+    return Object.freeze(slice);
+}
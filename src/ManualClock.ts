@@ -0,0 +1,167 @@
+import { Stopwatch } from "./Stopwatch";
+
+/**
+ * A manually controlled source of time, for writing fully deterministic tests of code
+ * that measures time.
+ *
+ * Time only passes when explicitly told to (see {@link #advance} and {@link #set}).
+ *
+ * {@link #now} can be used as a "system time getter" (see {@link Stopwatch.GetTimeFunc}),
+ * and {@link #schedule} can be used as a scheduler (see {@link Stopwatch.ScheduleFunc})
+ * for time-driven features such as {@link Timer} and {@link Stopwatch#onTick}.
+ * Both are pre-bound to this clock, so they can be passed around directly:
+ * ```ts
+ * const clock = new ManualClock();
+ * const timer = new Timer(1000, { getSystemTime: clock.now, schedule: clock.schedule });
+ * ```
+ */
+export class ManualClock {
+    /**
+     * The current time.
+     */
+    private time: number;
+
+    /**
+     * All scheduled callbacks that have not yet been called or cancelled.
+     */
+    private pending: ScheduledCallback[] = [];
+
+    /**
+     * Creates a new ManualClock.
+     * @param initialTime - The initial time. Defaults to zero.
+     */
+    public constructor(initialTime: number = 0) {
+        this.time = initialTime;
+    }
+
+    /**
+     * Gets the current time.
+     * Pre-bound, so it can be used directly as a {@link Stopwatch.GetTimeFunc}.
+     *
+     * @return the current time.
+     */
+    public readonly now: Stopwatch.GetTimeFunc = (): number => this.time;
+
+    /**
+     * Schedules a callback to be called once this clock has been advanced by at least
+     * the specified delay. Callbacks are never called synchronously; even callbacks with
+     * a delay of zero wait for the next call to {@link #advance} or {@link #set}.
+     * Pre-bound, so it can be used directly as a {@link Stopwatch.ScheduleFunc}.
+     *
+     * @param callback - The callback to call after the delay.
+     * @param delay - The amount of time to wait before calling the callback.
+     *        Negative delays are treated as zero.
+     * @return a function that cancels the scheduled callback if it has not yet been called.
+     */
+    public readonly schedule: Stopwatch.ScheduleFunc = (
+        callback: () => void,
+        delay: number
+    ): Stopwatch.CancelFunc => {
+        const scheduled: ScheduledCallback = {
+            callback: callback,
+            dueTime: this.time + Math.max(0, delay)
+        };
+
+        this.pending.push(scheduled);
+
+        return () => {
+            const index = this.pending.indexOf(scheduled);
+
+            if (index !== -1) {
+                this.pending.splice(index, 1);
+            }
+        };
+    };
+
+    /**
+     * Moves this clock forward by the specified amount of time, calling all scheduled
+     * callbacks that become due along the way, in order of their due time.
+     * See {@link #set}.
+     *
+     * @param duration - The amount of time to advance by.
+     * @throws Error if `duration` is negative or not finite.
+     */
+    public advance(duration: number): void {
+        if (!isFinite(duration) || duration < 0) {
+            throw new Error(`Invalid duration: ${duration}`);
+        }
+
+        this.set(this.time + duration);
+    }
+
+    /**
+     * Sets the current time.
+     *
+     * If the time moves forward, then all scheduled callbacks that become due are
+     * called in order of their due time (and then in order of scheduling). While each
+     * callback is called, the current time is the callback's due time. Callbacks that
+     * are scheduled by other callbacks are also called if they become due.
+     *
+     * The time may also be moved backward (e.g., to simulate adjustments to a computer's
+     * clock), in which case no callbacks are called.
+     *
+     * @param time - The new current time.
+     * @throws Error if `time` is not finite.
+     */
+    public set(time: number): void {
+        if (!isFinite(time)) {
+            throw new Error(`Invalid time: ${time}`);
+        }
+
+        let next = this.findNextDue(time);
+
+        while (next) {
+            this.pending.splice(this.pending.indexOf(next), 1);
+            this.time = Math.max(this.time, next.dueTime);
+            next.callback();
+            next = this.findNextDue(time);
+        }
+
+        this.time = time;
+    }
+
+    /**
+     * Get the number of scheduled callbacks that have not yet been called or cancelled.
+     * @return the number of pending scheduled callbacks.
+     */
+    public getPendingCount(): number {
+        return this.pending.length;
+    }
+
+    /**
+     * Finds the scheduled callback that is due first, as of a specified time.
+     * @param time - The time as of which to find a due callback.
+     * @return the scheduled callback that is due first, or undefined if no scheduled
+     *         callbacks are due as of the specified time.
+     */
+    private findNextDue(time: number): ScheduledCallback | undefined {
+        let result: ScheduledCallback | undefined;
+
+        for (const scheduled of this.pending) {
+            // Pending callbacks are in order of scheduling, so the earliest
+            // scheduled callback wins a tie
+            if (
+                scheduled.dueTime <= time &&
+                (!result || scheduled.dueTime < result.dueTime)
+            ) {
+                result = scheduled;
+            }
+        }
+
+        return result;
+    }
+}
+
+/**
+ * A callback scheduled via {@link ManualClock#schedule}.
+ */
+interface ScheduledCallback {
+    /**
+     * The callback.
+     */
+    readonly callback: () => void;
+    /**
+     * The clock time at which the callback is due.
+     */
+    readonly dueTime: number;
+}
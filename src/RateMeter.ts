@@ -0,0 +1,316 @@
+import { Stopwatch } from "./Stopwatch";
+
+/**
+ * Measures the throughput of events (e.g., requests, frames, or bytes) against the
+ * time of a {@link Stopwatch}.
+ *
+ * Record events with {@link RateMeter#record}, optionally weighted by an amount
+ * (e.g., a number of bytes). Because time is measured by a stopwatch, time while the
+ * stopwatch is stopped does not count towards any rate.
+ *
+ * Available rates, all per second (see {@link RateMeter.Options#unitsPerSecond}):
+ * - {@link RateMeter#getRate}: The overall rate since the stopwatch was last reset.
+ * - {@link RateMeter#getSliceRate}: The rate during the stopwatch's current pending
+ *   slice (i.e., since the last slice was recorded).
+ * - {@link RateMeter#getMovingAverages}: Exponentially weighted moving averages of the
+ *   rate, over configurable time windows (1, 10 and 60 seconds by default).
+ *
+ * The meter uses either its own stopwatch, or a supplied stopwatch that is shared with
+ * other code (see {@link RateMeter.Options#stopwatch}). Either way, all recorded
+ * amounts are discarded whenever the stopwatch is reset.
+ */
+export class RateMeter {
+    /**
+     * Measures the time that rates are based on.
+     */
+    private readonly stopwatch: Stopwatch;
+
+    /**
+     * The number of units of stopwatch time per second.
+     */
+    private readonly unitsPerSecond: number;
+
+    /**
+     * The time windows of the moving averages, in seconds.
+     */
+    private readonly windows: ReadonlyArray<number>;
+
+    /**
+     * The total amount recorded since the last reset.
+     */
+    private total: number = 0;
+
+    /**
+     * The total amount recorded before the stopwatch's current pending slice started.
+     */
+    private sliceStartTotal: number = 0;
+
+    /**
+     * The current moving averages of the rate, per unit of stopwatch time, in the same
+     * order as {@link #windows}.
+     */
+    private averages: number[];
+
+    /**
+     * The stopwatch time as of which {@link #averages} were last updated.
+     */
+    private averagesTime: number;
+
+    /**
+     * Creates a new RateMeter.
+     * @param options - Optional configuration.
+     * @throws Error if `options` contains an invalid number of units per second or
+     *         moving average window.
+     */
+    public constructor(options: RateMeter.Options = {}) {
+        const unitsPerSecond =
+            options.unitsPerSecond === undefined
+                ? 1000
+                : options.unitsPerSecond;
+        const windows = options.windows || DEFAULT_WINDOWS;
+
+        if (!isFinite(unitsPerSecond) || unitsPerSecond <= 0) {
+            throw new Error(`Invalid unitsPerSecond: ${unitsPerSecond}`);
+        }
+
+        for (const window of windows) {
+            if (!isFinite(window) || window <= 0) {
+                throw new Error(`Invalid moving average window: ${window}`);
+            }
+        }
+
+        this.stopwatch =
+            options.stopwatch || new Stopwatch(options.getSystemTime);
+        this.unitsPerSecond = unitsPerSecond;
+        this.windows = Array.from(windows);
+        this.averages = windows.map(() => 0);
+        this.averagesTime = this.stopwatch.getTime();
+
+        this.stopwatch.on("slice", this.onSlice).on("reset", this.onReset);
+    }
+
+    /**
+     * Get the stopwatch that measures the time that rates are based on.
+     * @return the stopwatch.
+     */
+    public getStopwatch(): Stopwatch {
+        return this.stopwatch;
+    }
+
+    /**
+     * Starts (or resumes) the stopwatch. See {@link Stopwatch#start}.
+     * @param forceReset - If true, then the stopwatch (and this meter) is reset
+     *        before starting.
+     */
+    public start(forceReset: boolean = false): void {
+        if (forceReset) {
+            this.reset();
+        }
+
+        this.stopwatch.start();
+    }
+
+    /**
+     * Stops (pauses) the stopwatch. See {@link Stopwatch#stop}.
+     * @return the current stopwatch time.
+     */
+    public stop(): number {
+        return this.stopwatch.stop();
+    }
+
+    /**
+     * Resets the stopwatch, which discards all recorded amounts.
+     * See {@link Stopwatch#reset}.
+     */
+    public reset(): void {
+        this.stopwatch.reset();
+        // In case the stopwatch was already idle, and did not emit a "reset" event
+        this.onReset();
+    }
+
+    /**
+     * Records an event at the current stopwatch time.
+     * @param amount - The amount (weight) of the event. Defaults to 1.
+     * @throws Error if `amount` is not a finite, non-negative number.
+     */
+    public record(amount: number = 1): void {
+        if (!isFinite(amount) || amount < 0) {
+            throw new Error(`Invalid amount: ${amount}`);
+        }
+
+        this.updateAverages(this.stopwatch.getTime());
+        this.total += amount;
+
+        this.windows.forEach((window, index) => {
+            this.averages[index] += amount / (window * this.unitsPerSecond);
+        });
+    }
+
+    /**
+     * Get the total amount recorded since the stopwatch was last reset.
+     * @return the total recorded amount.
+     */
+    public getTotal(): number {
+        return this.total;
+    }
+
+    /**
+     * Get the overall rate since the stopwatch was last reset.
+     * @return the total recorded amount per second of stopwatch time, or zero if no
+     *         stopwatch time has passed.
+     */
+    public getRate(): number {
+        return this.calculateRate(this.total, this.stopwatch.getTime());
+    }
+
+    /**
+     * Get the rate during the stopwatch's current pending slice (i.e., since the
+     * stopwatch was started, or since the last slice was recorded).
+     * @return the amount recorded during the current pending slice per second of
+     *         stopwatch time, or zero if no stopwatch time has passed.
+     */
+    public getSliceRate(): number {
+        return this.calculateRate(
+            this.total - this.sliceStartTotal,
+            this.stopwatch.getPendingSlice().duration
+        );
+    }
+
+    /**
+     * Get exponentially weighted moving averages of the rate, as of the current
+     * stopwatch time.
+     *
+     * Like load averages, each moving average starts at zero and converges on the
+     * recent rate; recorded amounts lose about 63% of their weight per window.
+     *
+     * @return a moving average for each configured window, in the configured order.
+     */
+    public getMovingAverages(): RateMeter.MovingAverage[] {
+        this.updateAverages(this.stopwatch.getTime());
+
+        return this.windows.map((window, index) =>
+            createMovingAverage(
+                window,
+                this.averages[index] * this.unitsPerSecond
+            )
+        );
+    }
+
+    /**
+     * Stops listening to events of the stopwatch. Use this to discard a meter
+     * that measures against a shared stopwatch. The meter must not be used afterwards.
+     */
+    public dispose(): void {
+        this.stopwatch.off("slice", this.onSlice).off("reset", this.onReset);
+    }
+
+    /**
+     * Starts tracking the amount recorded during the next pending slice.
+     */
+    private readonly onSlice = (): void => {
+        this.sliceStartTotal = this.total;
+    };
+
+    /**
+     * Discards all recorded amounts.
+     */
+    private readonly onReset = (): void => {
+        this.total = this.sliceStartTotal = 0;
+        this.averages = this.windows.map(() => 0);
+        this.averagesTime = this.stopwatch.getTime();
+    };
+
+    /**
+     * Decays the moving averages for the time that passed since they were last updated.
+     * @param time - The current stopwatch time.
+     */
+    private updateAverages(time: number): void {
+        // Manual adjustments may move the stopwatch time backwards
+        const elapsed = Math.max(0, time - this.averagesTime);
+
+        if (elapsed > 0) {
+            this.windows.forEach((window, index) => {
+                this.averages[index] *= Math.exp(
+                    -elapsed / (window * this.unitsPerSecond)
+                );
+            });
+        }
+
+        this.averagesTime = time;
+    }
+
+    /**
+     * Calculates a rate per second.
+     * @param amount - The amount.
+     * @param duration - The stopwatch time over which the amount was recorded.
+     * @return the amount per second, or zero if `duration` is not positive.
+     */
+    private calculateRate(amount: number, duration: number): number {
+        return duration > 0 ? (amount / duration) * this.unitsPerSecond : 0;
+    }
+}
+
+export namespace RateMeter {
+    /**
+     * Optional configuration of a {@link RateMeter}.
+     */
+    export interface Options {
+        /**
+         * The stopwatch that measures the time that rates are based on.
+         * Defaults to a new stopwatch that is owned by the meter.
+         */
+        stopwatch?: Stopwatch;
+        /**
+         * A callback that returns the current system time, used to create the meter's
+         * own stopwatch. Ignored if a stopwatch is supplied.
+         * See the {@link Stopwatch} constructor for details.
+         */
+        getSystemTime?: Stopwatch.GetTimeFunc;
+        /**
+         * The number of units of stopwatch time per second.
+         * Defaults to 1000 (milliseconds).
+         */
+        unitsPerSecond?: number;
+        /**
+         * The time windows of the moving averages, in seconds.
+         * Defaults to [1, 10, 60].
+         */
+        windows?: ReadonlyArray<number>;
+    }
+
+    /**
+     * An exponentially weighted moving average of a rate.
+     * See {@link RateMeter#getMovingAverages}.
+     */
+    export interface MovingAverage {
+        /**
+         * The time window of the moving average, in seconds.
+         */
+        readonly window: number;
+        /**
+         * The moving average of the rate, per second.
+         */
+        readonly rate: number;
+    }
+}
+
+/**
+ * The default time windows of moving averages, in seconds.
+ */
+const DEFAULT_WINDOWS: ReadonlyArray<number> = [1, 10, 60];
+
+/**
+ * Creates a new read-only {@link RateMeter.MovingAverage}.
+ * @param window - The time window, in seconds.
+ * @param rate - The moving average of the rate, per second.
+ * @return a new read-only moving average.
+ */
+function createMovingAverage(
+    window: number,
+    rate: number
+): RateMeter.MovingAverage {
+    return Object.freeze({
+        window: window,
+        rate: rate
+    });
+}
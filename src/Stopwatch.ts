@@ -0,0 +1,2913 @@
+import { createAbortController, createTimeoutError } from "./abort";
+import { DurationFormatOptions, formatDuration } from "./format";
+import { defaultScheduleFunc } from "./scheduling";
+import { DurationStatistics } from "./statistics";
+
+/**
+ * Records durations of time, with some design inspiration from a physical stopwatch.
+ *
+ * To begin recording time, create a new instance of Stopwatch and call its
+ * {@link Stopwatch#start} method.
+ *
+ * Pause the stopwatch via {@link Stopwatch#stop}, then resume by calling
+ * {@link Stopwatch#start} again.
+ *
+ * Use {@link Stopwatch#getTime} to get the amount of time that the stopwatch has
+ * recorded so far (ignoring durations of time that the Stopwatch was stopped).
+ * There's no need to stop the stopwatch before doing this.
+ *
+ * Similar to advanced physical stopwatches' abilities to record multiple lap times
+ * Stopwatch supports recording multiple "slices" of time. See {@link Stopwatch.Slice},
+ * {@link Stopwatch#slice}, {@link Stopwatch#getPendingSlice},
+ * {@link Stopwatch#getCompletedSlices}, and {@link Stopwatch#getCompletedAndPendingSlices}.
+ * NOTE: {@link Stopwatch#stop} supports an optional parameter to simultaneously
+ *       record the current pending "slice".
+ *
+ * Slices may optionally be recorded with a label and arbitrary metadata. See
+ * {@link Stopwatch#getSlicesByLabel} and {@link Stopwatch#getLabelTotals}.
+ * Use {@link Stopwatch#getSliceStats} for statistics of completed slice durations.
+ *
+ * By default, all completed slices are retained until the stopwatch is reset. For
+ * long-lived stopwatches, retention can be limited via {@link Stopwatch.Options}, while
+ * {@link Stopwatch#getSliceTotals} still covers all slices ever recorded.
+ * The type of slice metadata is specified by the `M` type parameter of Stopwatch.
+ *
+ * Use {@link Stopwatch#reset} to reset the stopwatch to its initial state.
+ * NOTE: {@link Stopwatch#start} also supports an optional parameter to force
+ *       a reset before (re)starting.
+ *
+ * See {@link Stopwatch#getState}, {@link Stopwatch#isIdle}, {@link Stopwatch#isRunning},
+ * and {@link Stopwatch#isStopped} for testing the current state of the Stopwatch.
+ *
+ * Use {@link Stopwatch#on}, {@link Stopwatch#once}, and {@link Stopwatch#off} to listen
+ * for state transitions and recorded slices. See {@link Stopwatch.EventMap}.
+ *
+ * Use {@link Stopwatch#addThreshold} (or {@link Stopwatch.Options#thresholds}) to be
+ * notified when the stopwatch time or the pending slice exceeds a time budget.
+ *
+ * Use {@link Stopwatch#child} to create nested stopwatches for timing sub-phases
+ * of work, and {@link Stopwatch#getTree} to get the full hierarchy of timings.
+ *
+ * By default, Stopwatch internally uses {@link Date.now} for tracking the amount of
+ * time that has passed. This is the most compatible implementation, but has some limitations:
+ * - Maximum precision of 1ms.
+ * - Results can be thrown off if the computer's time is adjusted (manually or automatically)
+ *   during execution of the code.
+ *
+ * If your runtime environment supports a more reliable or higher precision method for
+ * obtaining system time or program execution time, then you can override this default
+ * implementation by either:
+ * - Providing a custom "system time getter" function to the Stopwatch constructor.
+ * - Or using {@link Stopwatch.setDefaultSystemTimeGetter} to ensure that ALL future instances
+ *   of Stopwatch use your custom "system time getter" by default.
+ * NOTE: The unit of time/duration reported by Stopwatch is determined by the unit time
+ *       returned by the "system time getter" function.
+ *
+ * Stopwatch is not limited to recording durations of system time. It can record the "duration"
+ * (change) of any numeric value that may change over time, but is guaranteed to never decrease
+ * over time.
+ *
+ * @template M - The type of metadata that may be attached to recorded slices.
+ */
+export class Stopwatch<M = unknown> {
+    /**
+     * The system time at which the stopwatch was started.
+     * Undefined if the stopwatch is not yet started, or has been reset.
+     */
+    private startSystemTime: number | undefined;
+
+    /**
+     * The system time at which the stopwatch was stopped.
+     * Undefined if the stopwatch is not currently stopped,
+     * is not yet started, or has been reset.
+     */
+    private stopSystemTime: number | undefined;
+
+    /**
+     * The total amount of system time the stopwatch has been stopped since
+     * the last reset.
+     */
+    private stopDuration: number = 0;
+
+    /**
+     * All completed intervals during which the stopwatch was stopped since the last reset.
+     * Does not include the current stop, if the stopwatch is currently stopped.
+     */
+    private completedStopIntervals: Stopwatch.Interval[] = [];
+
+    /**
+     * All manual adjustments of the stopwatch time since the last reset.
+     */
+    private adjustments: Stopwatch.Adjustment[] = [];
+
+    /**
+     * The sum of all manual adjustments of the stopwatch time since the last reset.
+     */
+    private adjustmentTotal: number = 0;
+
+    /**
+     * The stopwatch time at which the current pending slice was started.
+     * Undefined if the stopwatch is not yet started, or has been reset.
+     */
+    private pendingSliceStartStopwatchTime: number | undefined;
+
+    /**
+     * Recorded results of all completed slices since the the last reset.
+     */
+    private completedSlices: Stopwatch.Slice<M>[] = [];
+
+    /**
+     * Incrementally accumulated statistics of all retained completed slices.
+     */
+    private sliceStatistics: DurationStatistics = new DurationStatistics();
+
+    /**
+     * Running totals of all slices recorded since the last reset, including
+     * slices that are no longer retained.
+     */
+    private sliceTotals: Stopwatch.SliceTotals = EMPTY_SLICE_TOTALS;
+
+    /**
+     * Registered event listeners, keyed by event type.
+     */
+    private listeners: {
+        [type: string]: ListenerRegistration[] | undefined;
+    } = {};
+
+    /**
+     * The name of this stopwatch, if it is a child stopwatch.
+     */
+    private name: string | undefined;
+
+    /**
+     * The parent of this stopwatch, if it is a child stopwatch.
+     */
+    private parent: Stopwatch<M> | undefined;
+
+    /**
+     * Child stopwatches created since the last reset.
+     */
+    private children: Stopwatch<M>[] = [];
+
+    /**
+     * The root stopwatch time at which this child stopwatch was started.
+     * Undefined if this stopwatch is not yet started, has been reset, or is not
+     * a child stopwatch.
+     */
+    private treeStartOffset: number | undefined;
+
+    /**
+     * The root stopwatch time at which this child stopwatch was most recently stopped.
+     * Undefined if this stopwatch is not currently stopped, or is not a child stopwatch.
+     */
+    private treeEndOffset: number | undefined;
+
+    /**
+     * The most recent raw system time read from {@link #getSystemTime}.
+     * Undefined if the system time has not yet been read.
+     */
+    private lastRawSystemTime: number | undefined;
+
+    /**
+     * The most recent system time returned by {@link #readSystemTime}.
+     * Undefined if the system time has not yet been read.
+     */
+    private lastSystemTime: number | undefined;
+
+    /**
+     * The amount of time added to every system time read from {@link #getSystemTime},
+     * to absorb backward jumps according to the "ignore" policy.
+     * See {@link Stopwatch.ClockBackwardsPolicy}.
+     */
+    private systemTimeOffset: number = 0;
+
+    /**
+     * All registered thresholds, in order of registration. See {@link #addThreshold}.
+     */
+    private thresholds: ThresholdRegistration[] = [];
+
+    /**
+     * Cancels the scheduled check of thresholds.
+     * Undefined if no check is currently scheduled.
+     */
+    private cancelThresholdCheck: Stopwatch.CancelFunc | undefined;
+
+    /**
+     * Creates a new Stopwatch instance.
+     * The unit of all durations reported by this instance will match the
+     * unit of time returned by the provided `getSystemTime` param.
+     *
+     * @param getSystemTime - A callback that returns the current system time.
+     *        Defaults to the current default system time getter as specified by the most
+     *        recent call to {@link Stopwatch.setDefaultSystemTimeGetter}, which in turn
+     *        defaults to {@link Date.now}.
+     * @param options - Optional configuration.
+     * @throws Error if `options` contains an invalid slice retention limit or
+     *         threshold.
+     */
+    public constructor(
+        private readonly getSystemTime: Stopwatch.GetTimeFunc = defaultSystemTimeGetter,
+        private readonly options: Stopwatch.Options = {}
+    ) {
+        const { maxRetainedSlices, sliceRetentionWindow } = options;
+
+        if (
+            maxRetainedSlices !== undefined &&
+            !(maxRetainedSlices >= 0 && maxRetainedSlices % 1 === 0)
+        ) {
+            throw new Error(`Invalid maxRetainedSlices: ${maxRetainedSlices}`);
+        }
+
+        if (
+            sliceRetentionWindow !== undefined &&
+            !(sliceRetentionWindow >= 0)
+        ) {
+            throw new Error(
+                `Invalid sliceRetentionWindow: ${sliceRetentionWindow}`
+            );
+        }
+
+        if (options.thresholds) {
+            for (const threshold of options.thresholds) {
+                this.addThreshold(threshold);
+            }
+        }
+    }
+
+    /**
+     * Get the current state of this stopwatch.
+     *
+     * @return the current state of this stopwatch.
+     */
+    public getState(): Stopwatch.State {
+        if (this.startSystemTime === undefined) {
+            return Stopwatch.State.IDLE;
+        } else if (this.stopSystemTime === undefined) {
+            return Stopwatch.State.RUNNING;
+        } else {
+            return Stopwatch.State.STOPPED;
+        }
+    }
+
+    /**
+     * Test if this stopwatch is currently {@link Stopwatch.State#IDLE}.
+     *
+     * @return true if this stopwatch is currently {@link Stopwatch.State#IDLE}.
+     */
+    public isIdle(): boolean {
+        return this.getState() === Stopwatch.State.IDLE;
+    }
+
+    /**
+     * Test if this stopwatch is currently {@link Stopwatch.State#RUNNING}.
+     *
+     * @return true if this stopwatch is currently {@link Stopwatch.State#RUNNING}.
+     */
+    public isRunning(): boolean {
+        return this.getState() === Stopwatch.State.RUNNING;
+    }
+
+    /**
+     * Test if this stopwatch is currently {@link Stopwatch.State#STOPPED}.
+     *
+     * @return true if this stopwatch is currently {@link Stopwatch.State#STOPPED}.
+     */
+    public isStopped(): boolean {
+        return this.getState() === Stopwatch.State.STOPPED;
+    }
+
+    /**
+     * Get the current stopwatch time.
+     * This is the total amount of system time that this stopwatch has been running since
+     * the last reset.
+     *
+     * While the state is {@link Stopwatch.State#IDLE}, this is the total of all
+     * adjustments made since the last reset (see {@link #adjust} and {@link #setTime}),
+     * which is zero unless the time was adjusted.
+     *
+     * Also checks all thresholds (see {@link #addThreshold}).
+     *
+     * @return the current stopwatch time.
+     */
+    public getTime(): number {
+        const time = this.calculateStopwatchTime();
+
+        this.checkThresholds(time);
+
+        return time;
+    }
+
+    /**
+     * Get the current stopwatch time, formatted according to a pattern.
+     * See {@link formatDuration} for details of the supported patterns.
+     *
+     * @param pattern - The format pattern. Defaults to "hh:mm:ss.SSS".
+     * @param options - Optional formatting options.
+     * @return the current stopwatch time, formatted according to the pattern.
+     */
+    public format(pattern?: string, options?: DurationFormatOptions): string {
+        return formatDuration(this.getTime(), pattern, options);
+    }
+
+    /**
+     * Get details about the current pending slice for this stopwatch, as of now.
+     *
+     * Returns a zero-length slice at time zero if the state is currently
+     * {@link Stopwatch.State#IDLE}, even if the time was adjusted while IDLE (the first
+     * pending slice starts when the stopwatch is started).
+     *
+     * @return details about the current pending slice for this stopwatch, as of now.
+     */
+    public getPendingSlice(): Stopwatch.Slice<M> {
+        return this.calculatePendingSlice();
+    }
+
+    /**
+     * Get a list of all completed/recorded slices for this stopwatch since the last reset.
+     * Only includes retained slices, if slice retention is limited
+     * (see {@link Stopwatch.Options}).
+     * @return a list of all completed/recorded slices for this stopwatch since the last reset.
+     */
+    public getCompletedSlices(): Stopwatch.Slice<M>[] {
+        return Array.from(this.getRetainedSlices());
+    }
+
+    /**
+     * Get a list of all completed/recorded slices for this stopwatch since the last reset
+     * that were recorded with the specified label.
+     * @param label - A slice label.
+     * @return a list of all completed/recorded slices with the specified label.
+     */
+    public getSlicesByLabel(label: string): Stopwatch.Slice<M>[] {
+        return this.getRetainedSlices().filter(
+            (slice) => slice.label === label
+        );
+    }
+
+    /**
+     * Get the total duration of all completed/recorded slices for this stopwatch since
+     * the last reset, grouped by label.
+     * Unlabeled slices are not included.
+     * @return an object mapping each slice label to the total duration of all completed
+     * slices with that label.
+     */
+    public getLabelTotals(): Stopwatch.LabelTotals {
+        const result: Stopwatch.LabelTotals = {};
+
+        for (const slice of this.getRetainedSlices()) {
+            if (slice.label !== undefined) {
+                result[slice.label] =
+                    (result[slice.label] || 0) + slice.duration;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Get statistics of the durations of all completed/recorded slices for this stopwatch
+     * since the last reset.
+     *
+     * Statistics of all completed slices are accumulated incrementally as slices are
+     * recorded, so they are cheap to obtain even with very many slices. Statistics of
+     * a filtered subset of slices are calculated from scratch.
+     *
+     * If slice retention is limited (see {@link Stopwatch.Options}), then the statistics
+     * only cover the retained slices (a rolling window). See {@link #getSliceTotals}
+     * for totals of all slices ever recorded.
+     *
+     * @param options - Optional options.
+     * @return statistics of the durations of all completed/recorded slices.
+     */
+    public getSliceStats(
+        options: Stopwatch.SliceStatsOptions<M> = {}
+    ): Stopwatch.SliceStats {
+        const filter = options.filter;
+        const slices = this.getRetainedSlices();
+
+        if (!filter) {
+            return this.sliceStatistics.getStats(options.percentiles);
+        }
+
+        const durations: number[] = [];
+
+        for (const slice of slices) {
+            if (filter(slice)) {
+                durations.push(slice.duration);
+            }
+        }
+
+        return DurationStatistics.fromDurations(durations).getStats(
+            options.percentiles
+        );
+    }
+
+    /**
+     * Get a list of all completed/recorded slices for this stopwatch since the last reset,
+     * plus the current pending slice.
+     * @return a list of all completed/recorded slices for this stopwatch since the last reset,
+     * plus the current pending slice.
+     */
+    public getCompletedAndPendingSlices(): Stopwatch.Slice<M>[] {
+        return [...this.getRetainedSlices(), this.getPendingSlice()];
+    }
+
+    /**
+     * Get running totals of the durations of all slices recorded since the last reset,
+     * including slices that are no longer retained (see {@link Stopwatch.Options}).
+     * @return running totals of all slices recorded since the last reset.
+     */
+    public getSliceTotals(): Stopwatch.SliceTotals {
+        return this.sliceTotals;
+    }
+
+    /**
+     * Get all completed/recorded slices for this stopwatch since the last reset as laps,
+     * in the style of a sports stopwatch: numbered, with cumulative split times,
+     * the fastest and slowest laps flagged, and each lap's delta to the fastest and the
+     * previous lap.
+     *
+     * Laps are derived from the completed slices at the time of the call, so they
+     * always reflect all slices recorded so far. When laps are tied for fastest or
+     * slowest, only the earliest of them is flagged.
+     *
+     * If slice retention is limited (see {@link Stopwatch.Options}), then only retained
+     * slices are included, but lap numbers still count all slices ever recorded.
+     *
+     * @return all completed/recorded slices as laps.
+     */
+    public getLaps(): Stopwatch.Lap<M>[] {
+        const slices = this.getRetainedSlices();
+        let fastest: Stopwatch.Slice<M> | undefined;
+        let slowest: Stopwatch.Slice<M> | undefined;
+
+        for (const slice of slices) {
+            if (!fastest || slice.duration < fastest.duration) {
+                fastest = slice;
+            }
+
+            if (!slowest || slice.duration > slowest.duration) {
+                slowest = slice;
+            }
+        }
+
+        const firstNumber = this.sliceTotals.count - slices.length + 1;
+
+        return slices.map((slice, index) => {
+            const previous = index > 0 ? slices[index - 1] : undefined;
+
+            return Object.freeze({
+                ...slice,
+                number: firstNumber + index,
+                splitTime: slice.endTime,
+                isFastest: slice === fastest,
+                isSlowest: slice === slowest,
+                deltaToFastest: slice.duration - fastest!.duration,
+                deltaToPrevious: previous
+                    ? slice.duration - previous.duration
+                    : undefined
+            });
+        });
+    }
+
+    /**
+     * Get a list of all intervals during which this stopwatch was
+     * {@link Stopwatch.State#RUNNING} since the last reset, in chronological order.
+     *
+     * If the stopwatch is currently {@link Stopwatch.State#RUNNING}, then the last
+     * interval is the current one, as of now.
+     *
+     * @return a list of all intervals during which this stopwatch was running.
+     */
+    public getRunIntervals(): Stopwatch.Interval[] {
+        if (this.startSystemTime === undefined) {
+            return [];
+        }
+
+        const result: Stopwatch.Interval[] = [];
+        let runStartSystemTime = this.startSystemTime;
+        // The stopwatch time at start includes all adjustments made while IDLE
+        let runStartTime = this.adjustments
+            .filter((adjustment) => adjustment.state === Stopwatch.State.IDLE)
+            .reduce((total, adjustment) => total + adjustment.delta, 0);
+
+        for (const stopInterval of this.completedStopIntervals) {
+            result.push(
+                createInterval(
+                    runStartSystemTime,
+                    stopInterval.startSystemTime,
+                    runStartTime,
+                    stopInterval.startTime
+                )
+            );
+            runStartSystemTime = stopInterval.endSystemTime;
+            runStartTime = stopInterval.endTime;
+        }
+
+        const endSystemTime = this.getSystemTimeOfCurrentStopwatchTime();
+
+        result.push(
+            createInterval(
+                runStartSystemTime,
+                endSystemTime,
+                runStartTime,
+                this.calculateStopwatchTime(endSystemTime)
+            )
+        );
+
+        return result;
+    }
+
+    /**
+     * Get a list of all intervals during which this stopwatch was
+     * {@link Stopwatch.State#STOPPED} (paused) since the last reset, in chronological order.
+     *
+     * If the stopwatch is currently {@link Stopwatch.State#STOPPED}, then the last
+     * interval is the current one, as of now.
+     *
+     * Stopwatch time does not advance while stopped, so the `startTime` and `endTime`
+     * of each interval are equal, while its `duration` is the amount of system time
+     * that the stopwatch was stopped.
+     *
+     * @return a list of all intervals during which this stopwatch was stopped.
+     */
+    public getStopIntervals(): Stopwatch.Interval[] {
+        const result = Array.from(this.completedStopIntervals);
+
+        if (this.stopSystemTime !== undefined) {
+            const time = this.calculateStopwatchTime(this.stopSystemTime);
+
+            result.push(
+                createInterval(
+                    this.stopSystemTime,
+                    this.readSystemTime(),
+                    time,
+                    time
+                )
+            );
+        }
+
+        return result;
+    }
+
+    /**
+     * Starts (or resumes) running this stopwatch.
+     *
+     * Does nothing if the state is already {@link Stopwatch.State#RUNNING} and `forceReset`
+     * is false.
+     *
+     * The state is guaranteed to be {@link Stopwatch.State#RUNNING} after
+     * calling this method.
+     *
+     * @param forceReset - If true, then the stopwatch is {@link #reset} before starting.
+     */
+    public start(forceReset: boolean = false): void {
+        if (forceReset) {
+            this.reset();
+        }
+
+        if (this.stopSystemTime !== undefined) {
+            const systemNow = this.readSystemTime();
+            const stopDuration = systemNow - this.stopSystemTime;
+            const stopTime = this.calculateStopwatchTime(this.stopSystemTime);
+
+            // Record the interval of the stop
+            this.completedStopIntervals.push(
+                createInterval(
+                    this.stopSystemTime,
+                    systemNow,
+                    stopTime,
+                    stopTime
+                )
+            );
+            // Accumulate duration ot stop
+            this.stopDuration += stopDuration;
+            // Resume running
+            this.stopSystemTime = undefined;
+            this.treeEndOffset = undefined;
+
+            this.emit("resume", {
+                type: "resume",
+                previousState: Stopwatch.State.STOPPED,
+                state: Stopwatch.State.RUNNING,
+                time: this.calculateStopwatchTime(systemNow)
+            });
+        } else if (this.startSystemTime === undefined) {
+            const systemNow = this.readSystemTime();
+            // Record initial start time
+            this.startSystemTime = systemNow;
+            this.pendingSliceStartStopwatchTime = this.adjustmentTotal;
+
+            if (this.parent) {
+                this.treeStartOffset = this.calculateRootStopwatchTime(
+                    systemNow
+                );
+            }
+
+            this.emit("start", {
+                type: "start",
+                previousState: Stopwatch.State.IDLE,
+                state: Stopwatch.State.RUNNING,
+                time: this.adjustmentTotal
+            });
+        }
+
+        this.updateThresholds();
+    }
+
+    /**
+     * Ends the currently pending slice {@link Stopwatch.Slice}, records it, and
+     * starts the next pending slice.
+     *
+     * Does nothing and returns a zero-length slice if the state is
+     * currently {@link Stopwatch.State#IDLE}.
+     *
+     * If the state is currently {@link Stopwatch.State#STOPPED}, then the slice
+     * technically ends (and the next pending slice starts) at the same time
+     * the stopwatch was stopped.
+     *
+     * This method does not change the state of the stopwatch.
+     *
+     * @param label - An optional label for the recorded slice.
+     * @param metadata - Optional arbitrary metadata for the recorded slice.
+     * @returns the recorded slice.
+     */
+    public slice(label?: string, metadata?: M): Stopwatch.Slice<M> {
+        return this.recordPendingSlice(undefined, label, metadata);
+    }
+
+    /**
+     * Stops (pauses) this stopwatch and returns the current {@link #getTime}
+     * result. Time will not be accumulated to this stopwatch's total running duration
+     * or the current pending slice while it is stopped. Call {@link #start} to resume
+     * accumulating time.
+     *
+     * Does nothing if the state is currently {@link Stopwatch.State#IDLE}, other than
+     * returning the current {@link #getTime} result (which is zero unless the time was
+     * adjusted while IDLE).
+     *
+     * Stopping a stopwatch that is already {@link Stopwatch.State#STOPPED} will still
+     * record another slice if `recordPendingSlice` is true.
+     *
+     * All running child stopwatches (see {@link #child}) are also stopped at the exact
+     * same time.
+     *
+     * The state will be {@link Stopwatch.State#STOPPED} after calling this method if
+     * the state is not currently {@link Stopwatch.State#IDLE}. otherwise, it will remain
+     * {@link Stopwatch.State#IDLE}.
+     *
+     * @param recordPendingSlice - If true, then also end/record the current pending slice.
+     *        This ensures that slice is ended exactly at the same time that the stopwatch
+     *        is stopped.
+     * @param label - An optional label for the recorded slice.
+     *        Ignored if `recordPendingSlice` is false.
+     * @param metadata - Optional arbitrary metadata for the recorded slice.
+     *        Ignored if `recordPendingSlice` is false.
+     * @return the current {@link #getTime} result.
+     */
+    public stop(
+        recordPendingSlice: boolean = false,
+        label?: string,
+        metadata?: M
+    ): number {
+        if (this.startSystemTime === undefined) {
+            return this.getTime();
+        }
+
+        const systemTimeOfStopwatchTime = this.getSystemTimeOfCurrentStopwatchTime();
+
+        if (recordPendingSlice) {
+            this.recordPendingSlice(
+                this.calculateStopwatchTime(systemTimeOfStopwatchTime),
+                label,
+                metadata
+            );
+        }
+
+        this.stopAtSystemTime(systemTimeOfStopwatchTime);
+
+        return this.getTime();
+    }
+
+    /**
+     * Completely resets this stopwatch to its initial state.
+     * Clears out all recorded running duration, slices, child stopwatches, etc.
+     * The state is guaranteed to be {@link Stopwatch.State#IDLE} after
+     * calling this method.
+     */
+    public reset(): void {
+        const previousState = this.getState();
+
+        this.startSystemTime = this.pendingSliceStartStopwatchTime = this.stopSystemTime = undefined;
+        this.stopDuration = 0;
+        this.completedStopIntervals = [];
+        this.adjustments = [];
+        this.adjustmentTotal = 0;
+        this.completedSlices = [];
+        this.sliceStatistics = new DurationStatistics();
+        this.sliceTotals = EMPTY_SLICE_TOTALS;
+        this.children = [];
+        this.treeStartOffset = this.treeEndOffset = undefined;
+
+        // Discard the deadlines of signals (see #signalAfter), and re-arm all thresholds
+        this.thresholds = this.thresholds.filter(
+            (registration) => !registration.isDeadline
+        );
+
+        for (const registration of this.thresholds) {
+            registration.fired = false;
+        }
+
+        this.updateThresholds();
+
+        if (previousState !== Stopwatch.State.IDLE) {
+            this.emit("reset", {
+                type: "reset",
+                previousState: previousState,
+                state: Stopwatch.State.IDLE,
+                time: 0
+            });
+        }
+    }
+
+    /**
+     * Manually adjusts the stopwatch time by a specified amount (e.g., to add a penalty,
+     * or to correct a mis-start). Works in every {@link Stopwatch.State}. An adjustment
+     * made while {@link Stopwatch.State#IDLE} becomes the stopwatch time at which the
+     * stopwatch starts.
+     *
+     * The adjustment is applied to the current pending slice. If a negative adjustment
+     * would end the pending slice before it started, then the pending slice is
+     * restarted at the adjusted time instead. Completed slices are not affected.
+     *
+     * Every adjustment is recorded (see {@link #getAdjustments}), so that the difference
+     * between the stopwatch time and the raw measured time can be explained.
+     *
+     * @param delta - The amount of time to add to the stopwatch time (negative to subtract).
+     * @param reason - An optional description of the reason for the adjustment.
+     * @return the recorded adjustment.
+     * @throws Error if `delta` is not a finite number, or would make the stopwatch
+     *         time negative.
+     */
+    public adjust(delta: number, reason?: string): Stopwatch.Adjustment {
+        if (!isFiniteNumber(delta)) {
+            throw new Error(`Invalid adjustment: ${delta}`);
+        }
+
+        const previousTime = this.getTime();
+
+        return this.recordAdjustment(
+            previousTime,
+            previousTime + delta,
+            reason
+        );
+    }
+
+    /**
+     * Manually sets the stopwatch time. Works in every {@link Stopwatch.State}.
+     * This is an adjustment by the difference between the specified time and the current
+     * stopwatch time. See {@link #adjust} for details.
+     *
+     * @param time - The new stopwatch time.
+     * @param reason - An optional description of the reason for the adjustment.
+     * @return the recorded adjustment.
+     * @throws Error if `time` is not a finite, non-negative number.
+     */
+    public setTime(time: number, reason?: string): Stopwatch.Adjustment {
+        if (!isFiniteNumber(time)) {
+            throw new Error(`Invalid time: ${time}`);
+        }
+
+        return this.recordAdjustment(this.getTime(), time, reason);
+    }
+
+    /**
+     * Get a list of all manual adjustments of the stopwatch time since the last reset,
+     * in the order they were made. See {@link #adjust} and {@link #setTime}.
+     * @return a list of all manual adjustments since the last reset.
+     */
+    public getAdjustments(): Stopwatch.Adjustment[] {
+        return Array.from(this.adjustments);
+    }
+
+    /**
+     * Registers a threshold (i.e., a time budget) on the total stopwatch time or on the
+     * duration of the current pending slice. See {@link Stopwatch.Threshold}.
+     *
+     * The threshold's callback is called exactly once when the threshold is crossed
+     * (reached or exceeded). Thresholds are re-armed when the stopwatch is reset, and
+     * slice thresholds are also re-armed whenever a slice is recorded.
+     *
+     * Thresholds are checked by every call to {@link #getTime} and {@link #slice}
+     * (and everything else that reads the current time), and by checks that are
+     * scheduled for when the next threshold is due while the stopwatch is running
+     * (see {@link Stopwatch.Options#schedule}).
+     *
+     * @param threshold - The threshold.
+     * @return a function that unregisters the threshold.
+     * @throws Error if the threshold's limit is not a finite, non-negative number.
+     */
+    public addThreshold(threshold: Stopwatch.Threshold): Stopwatch.CancelFunc {
+        if (!isFiniteNumber(threshold.limit) || threshold.limit < 0) {
+            throw new Error(`Invalid threshold limit: ${threshold.limit}`);
+        }
+
+        return this.registerThreshold(threshold, false);
+    }
+
+    /**
+     * Creates an `AbortSignal` that is aborted when the stopwatch time reaches a
+     * deadline, for passing a deadline through async code. Unlike
+     * `AbortSignal.timeout()`, time while the stopwatch is stopped does not count.
+     *
+     * The signal is aborted with a "TimeoutError" reason (like `AbortSignal.timeout()`).
+     * If the stopwatch is reset (in any state) before the deadline is reached, then
+     * the signal is never aborted.
+     *
+     * The deadline is checked whenever thresholds are checked (see
+     * {@link #addThreshold}), but it is not a threshold itself, so it does not count
+     * towards {@link #getRemainingBudget} or {@link #isOverBudget}.
+     *
+     * @param time - The stopwatch time at which to abort the signal.
+     * @return the signal.
+     * @throws Error if `time` is not a finite, non-negative number, or if
+     *         `AbortController` is not available.
+     */
+    public signalAfter(time: number): AbortSignal {
+        if (!isFiniteNumber(time) || time < 0) {
+            throw new Error(`Invalid deadline: ${time}`);
+        }
+
+        const controller = createAbortController();
+        let isDone = false;
+        let removeThreshold: Stopwatch.CancelFunc | undefined;
+
+        // The deadline is discarded by reset(), so it only needs to be removed once
+        // it is reached
+        removeThreshold = this.registerThreshold(
+            {
+                limit: time,
+                callback: () => {
+                    isDone = true;
+
+                    if (removeThreshold) {
+                        removeThreshold();
+                    }
+
+                    controller.abort(
+                        createTimeoutError(`Stopwatch time reached ${time}`)
+                    );
+                }
+            },
+            true
+        );
+
+        // The deadline may have already been reached
+        if (isDone) {
+            removeThreshold();
+        }
+
+        return controller.signal;
+    }
+
+    /**
+     * Get the amount of time remaining until the nearest threshold is reached
+     * (see {@link #addThreshold}). Negative if a threshold has been exceeded.
+     *
+     * @return the smallest remaining budget of all thresholds, or Infinity if there are
+     *         no thresholds.
+     */
+    public getRemainingBudget(): number {
+        const time = this.getTime();
+        let result = Infinity;
+
+        for (const registration of this.thresholds) {
+            if (registration.isDeadline) {
+                continue;
+            }
+
+            result = Math.min(
+                result,
+                registration.threshold.limit -
+                    this.getThresholdValue(registration.threshold, time)
+            );
+        }
+
+        return result;
+    }
+
+    /**
+     * Tests if any threshold is currently reached or exceeded (see {@link #addThreshold}).
+     * @return true if any threshold is currently reached or exceeded.
+     */
+    public isOverBudget(): boolean {
+        return this.getRemainingBudget() <= 0;
+    }
+
+    /**
+     * Creates a new child stopwatch, for timing a sub-phase of the work that this
+     * stopwatch is timing.
+     *
+     * The child stopwatch shares this stopwatch's "system time getter", and is
+     * initially {@link Stopwatch.State#IDLE}. It is automatically stopped whenever
+     * this stopwatch is stopped, and is discarded when this stopwatch is reset.
+     *
+     * See {@link #getTree}.
+     *
+     * @param name - The name of the child stopwatch.
+     * @return the new child stopwatch.
+     */
+    public child(name: string): Stopwatch<M> {
+        const child = new Stopwatch<M>(this.getSystemTime, {
+            ...this.options,
+            thresholds: undefined
+        });
+
+        child.name = name;
+        child.parent = this;
+        this.children.push(child);
+
+        return child;
+    }
+
+    /**
+     * Get the name of this stopwatch.
+     * @return the name of this stopwatch, or undefined if it is not a child stopwatch.
+     */
+    public getName(): string | undefined {
+        return this.name;
+    }
+
+    /**
+     * Get a list of all child stopwatches of this stopwatch since the last reset.
+     * @return a list of all child stopwatches of this stopwatch since the last reset.
+     */
+    public getChildren(): Stopwatch<M>[] {
+        return Array.from(this.children);
+    }
+
+    /**
+     * Get the full hierarchy of timings of this stopwatch and all of its descendant
+     * child stopwatches (see {@link #child}), as of now.
+     *
+     * The start/end offsets of every node are relative to the stopwatch time
+     * of the root stopwatch of the hierarchy.
+     *
+     * @return the full hierarchy of timings of this stopwatch, as of now.
+     */
+    public getTree(): Stopwatch.TreeNode {
+        const root = this.getRoot();
+
+        return this.createTreeNode(root.getSystemTimeOfCurrentStopwatchTime());
+    }
+
+    /**
+     * Registers a listener for events of the specified type.
+     * See {@link Stopwatch.EventMap} for all event types and when they are emitted.
+     *
+     * Registering the same listener for the same event type more than once results
+     * in the listener being called multiple times per event.
+     *
+     * @param type - The type of event to listen for.
+     * @param listener - The listener to call for each event of the specified type.
+     * @return this stopwatch, for chaining.
+     */
+    public on<K extends Stopwatch.EventType>(
+        type: K,
+        listener: Stopwatch.Listener<Stopwatch.EventMap<M>[K]>
+    ): this {
+        return this.addListener(type, listener, false);
+    }
+
+    /**
+     * Registers a listener for only the next event of the specified type.
+     * The listener is automatically removed before it is called.
+     *
+     * @param type - The type of event to listen for.
+     * @param listener - The listener to call for the next event of the specified type.
+     * @return this stopwatch, for chaining.
+     */
+    public once<K extends Stopwatch.EventType>(
+        type: K,
+        listener: Stopwatch.Listener<Stopwatch.EventMap<M>[K]>
+    ): this {
+        return this.addListener(type, listener, true);
+    }
+
+    /**
+     * Removes a listener that was registered via {@link #on} or {@link #once}.
+     *
+     * Does nothing if the listener is not registered for the specified event type.
+     * If the listener was registered more than once, then only the most recent
+     * registration is removed.
+     *
+     * @param type - The type of event the listener was registered for.
+     * @param listener - The listener to remove.
+     * @return this stopwatch, for chaining.
+     */
+    public off<K extends Stopwatch.EventType>(
+        type: K,
+        listener: Stopwatch.Listener<Stopwatch.EventMap<M>[K]>
+    ): this {
+        const registrations = this.listeners[type];
+
+        if (registrations) {
+            for (let i = registrations.length - 1; i >= 0; --i) {
+                if (registrations[i].listener === listener) {
+                    registrations.splice(i, 1);
+                    break;
+                }
+            }
+        }
+
+        return this;
+    }
+
+    /**
+     * Subscribes a callback to be called periodically while this stopwatch is
+     * {@link Stopwatch.State#RUNNING} (e.g., to render a live display).
+     *
+     * Ticks are aligned to whole multiples of `interval` in stopwatch time. For example,
+     * with an interval of 100, ticks occur at stopwatch times 100, 200, 300, etc.,
+     * regardless of when this stopwatch was started, stopped, or resumed.
+     * Each tick is scheduled from the actual current stopwatch time, so that scheduling
+     * delays do not accumulate (drift). If a tick is delayed by more than an interval,
+     * then the missed ticks are skipped.
+     *
+     * Ticks pause while this stopwatch is stopped (or reset), and resume when it is
+     * started again. Ticks are realigned when the stopwatch time is adjusted
+     * (see {@link #adjust}).
+     *
+     * @param interval - The amount of stopwatch time between ticks.
+     * @param callback - Called with the current stopwatch time on every tick.
+     * @param schedule - Schedules each tick. Defaults to `setTimeout`.
+     *        Provide a custom implementation when using a custom "system time getter".
+     * @return a function that unsubscribes the callback.
+     * @throws Error if `interval` is not a positive finite number.
+     */
+    public onTick(
+        interval: number,
+        callback: Stopwatch.TickCallback,
+        schedule: Stopwatch.ScheduleFunc = defaultScheduleFunc
+    ): Stopwatch.CancelFunc {
+        if (!isFiniteNumber(interval) || interval <= 0) {
+            throw new Error(`Invalid tick interval: ${interval}`);
+        }
+
+        let cancelScheduledTick: Stopwatch.CancelFunc | undefined;
+        let nextTickTime = 0;
+
+        const cancelTick = (): void => {
+            if (cancelScheduledTick) {
+                cancelScheduledTick();
+                cancelScheduledTick = undefined;
+            }
+        };
+
+        const scheduleTick = (time: number): void => {
+            cancelTick();
+            nextTickTime = (Math.floor(time / interval) + 1) * interval;
+            cancelScheduledTick = schedule(tick, nextTickTime - time);
+        };
+
+        const tick = (): void => {
+            cancelScheduledTick = undefined;
+
+            if (!this.isRunning()) {
+                return;
+            }
+
+            const time = this.getTime();
+            // A tick that runs early is only rescheduled
+            const isDue = time >= nextTickTime;
+
+            // Schedule the next tick first, so that the callback may safely
+            // stop this stopwatch or unsubscribe
+            scheduleTick(time);
+
+            if (isDue) {
+                callback(time);
+            }
+        };
+
+        const onRun = (event: Stopwatch.Event): void => {
+            scheduleTick(event.time);
+        };
+
+        const onAdjust = (event: Stopwatch.Event): void => {
+            if (this.isRunning()) {
+                scheduleTick(event.time);
+            }
+        };
+
+        this.on("start", onRun)
+            .on("resume", onRun)
+            .on("stop", cancelTick)
+            .on("reset", cancelTick)
+            .on("adjust", onAdjust);
+
+        if (this.isRunning()) {
+            scheduleTick(this.getTime());
+        }
+
+        return () => {
+            this.off("start", onRun)
+                .off("resume", onRun)
+                .off("stop", cancelTick)
+                .off("reset", cancelTick)
+                .off("adjust", onAdjust);
+            cancelTick();
+        };
+    }
+
+    /**
+     * Creates a JSON-safe snapshot of this stopwatch's complete internal state.
+     *
+     * The snapshot can later be passed to {@link Stopwatch.fromJSON} to restore
+     * an equivalent stopwatch in the exact same {@link Stopwatch.State}. This method
+     * is also used automatically by `JSON.stringify()`.
+     *
+     * NOTE: The snapshot contains raw system times, so it can only be meaningfully
+     *       restored with a "system time getter" that shares the same time base as the
+     *       one used by this stopwatch (e.g., {@link Date.now} in both cases).
+     *
+     * @return a JSON-safe snapshot of this stopwatch's complete internal state.
+     */
+    public toJSON(): Stopwatch.Snapshot<M> {
+        return {
+            version: Stopwatch.SNAPSHOT_VERSION,
+            startSystemTime: nullIfUndefined(this.startSystemTime),
+            stopSystemTime: nullIfUndefined(this.stopSystemTime),
+            stopDuration: this.stopDuration,
+            completedStopIntervals: Array.from(this.completedStopIntervals),
+            adjustments: Array.from(this.adjustments),
+            pendingSliceStartStopwatchTime: nullIfUndefined(
+                this.pendingSliceStartStopwatchTime
+            ),
+            completedSlices: Array.from(this.getRetainedSlices()),
+            sliceTotals: {
+                count: this.sliceTotals.count,
+                total: this.sliceTotals.total,
+                min: this.sliceTotals.count > 0 ? this.sliceTotals.min : null,
+                max: this.sliceTotals.count > 0 ? this.sliceTotals.max : null
+            },
+            systemTimeOffset: this.systemTimeOffset,
+            lastRawSystemTime: nullIfUndefined(this.lastRawSystemTime)
+        };
+    }
+
+    /**
+     * Creates a new Stopwatch whose internal state is restored from a snapshot that
+     * was previously created by {@link Stopwatch#toJSON}.
+     *
+     * A restored {@link Stopwatch.State#RUNNING} stopwatch continues accumulating time
+     * from the snapshot's start time, as if it had never been serialized.
+     *
+     * @param data - A snapshot created by {@link Stopwatch#toJSON} (or the result of
+     *        parsing its JSON representation).
+     * @param getSystemTime - A callback that returns the current system time.
+     *        See {@link Stopwatch} constructor for details.
+     * @param options - Optional configuration.
+     *        See {@link Stopwatch} constructor for details.
+     * @return a new Stopwatch restored from the snapshot.
+     * @throws Error if `data` is not a valid snapshot.
+     */
+    public static fromJSON<M = unknown>(
+        data: unknown,
+        getSystemTime?: Stopwatch.GetTimeFunc,
+        options?: Stopwatch.Options
+    ): Stopwatch<M> {
+        const snapshot = validateSnapshot<M>(data);
+        const stopwatch = new Stopwatch<M>(getSystemTime, options);
+
+        stopwatch.startSystemTime = undefinedIfNull(snapshot.startSystemTime);
+        stopwatch.stopSystemTime = undefinedIfNull(snapshot.stopSystemTime);
+        stopwatch.stopDuration = snapshot.stopDuration;
+        stopwatch.completedStopIntervals = snapshot.completedStopIntervals.map(
+            (interval) =>
+                createInterval(
+                    interval.startSystemTime,
+                    interval.endSystemTime,
+                    interval.startTime,
+                    interval.endTime
+                )
+        );
+        stopwatch.pendingSliceStartStopwatchTime = undefinedIfNull(
+            snapshot.pendingSliceStartStopwatchTime
+        );
+        stopwatch.completedSlices = snapshot.completedSlices.map((slice) =>
+            createSlice(
+                slice.startTime,
+                slice.endTime,
+                slice.label,
+                slice.metadata
+            )
+        );
+
+        for (const slice of stopwatch.completedSlices) {
+            stopwatch.sliceStatistics.add(slice.duration);
+        }
+
+        stopwatch.sliceTotals = createSliceTotals(
+            snapshot.sliceTotals.count,
+            snapshot.sliceTotals.total,
+            undefinedIfNull(snapshot.sliceTotals.min),
+            undefinedIfNull(snapshot.sliceTotals.max)
+        );
+        stopwatch.discardUnretainedSlices();
+
+        stopwatch.adjustments = snapshot.adjustments.map((adjustment) =>
+            createAdjustment(
+                adjustment.state,
+                adjustment.previousTime,
+                adjustment.time,
+                adjustment.reason
+            )
+        );
+
+        for (const adjustment of stopwatch.adjustments) {
+            stopwatch.adjustmentTotal += adjustment.delta;
+        }
+
+        // The latest system time known to the snapshot, for detecting backward jumps
+        const stopIntervalCount = stopwatch.completedStopIntervals.length;
+        stopwatch.lastSystemTime =
+            stopwatch.stopSystemTime !== undefined
+                ? stopwatch.stopSystemTime
+                : stopIntervalCount > 0
+                ? stopwatch.completedStopIntervals[stopIntervalCount - 1]
+                      .endSystemTime
+                : stopwatch.startSystemTime;
+
+        // Version 4 snapshots predate these, so they default to no absorbed jumps
+        stopwatch.systemTimeOffset = snapshot.systemTimeOffset || 0;
+        stopwatch.lastRawSystemTime =
+            snapshot.lastRawSystemTime === undefined
+                ? stopwatch.lastSystemTime
+                : undefinedIfNull(snapshot.lastRawSystemTime);
+
+        stopwatch.updateThresholds();
+
+        return stopwatch;
+    }
+
+    /**
+     * Private implementation of registering an event listener.
+     * See {@link #on} and {@link #once}.
+     * @param type - The type of event to listen for.
+     * @param listener - The listener to register.
+     * @param once - If true, then the listener is removed after the next event.
+     * @return this stopwatch, for chaining.
+     */
+    private addListener<K extends Stopwatch.EventType>(
+        type: K,
+        listener: Stopwatch.Listener<Stopwatch.EventMap<M>[K]>,
+        once: boolean
+    ): this {
+        const registrations =
+            this.listeners[type] || (this.listeners[type] = []);
+
+        // Registrations are keyed by type, so each listener is only ever called
+        // with events of the type it was registered for
+        registrations.push({
+            listener: listener as Stopwatch.Listener<Stopwatch.Event>,
+            once: once
+        });
+
+        return this;
+    }
+
+    /**
+     * Calls all listeners that are registered for an event's type.
+     * @param type - The type of event.
+     * @param event - The event to pass to each listener.
+     */
+    private emit<K extends Stopwatch.EventType>(
+        type: K,
+        event: Stopwatch.EventMap<M>[K]
+    ): void {
+        const registrations = this.listeners[type];
+
+        if (!registrations || registrations.length === 0) {
+            return;
+        }
+
+        // Iterate a copy so that listeners may safely add/remove listeners
+        for (const registration of Array.from(registrations)) {
+            if (registration.once) {
+                const index = registrations.indexOf(registration);
+
+                if (index === -1) {
+                    // Already removed by a previous listener
+                    continue;
+                }
+
+                registrations.splice(index, 1);
+            }
+
+            registration.listener(event);
+        }
+    }
+
+    /**
+     * Private implementation of stopping this stopwatch and all of its running
+     * child stopwatches at a specified system time.
+     * Does nothing if this stopwatch is not currently {@link Stopwatch.State#RUNNING}.
+     * @param systemTime - The system time at which the stopwatch is stopped.
+     */
+    private stopAtSystemTime(systemTime: number): void {
+        if (!this.isRunning()) {
+            return;
+        }
+
+        this.stopSystemTime = systemTime;
+
+        if (this.parent) {
+            this.treeEndOffset = this.calculateRootStopwatchTime(systemTime);
+        }
+
+        this.emit("stop", {
+            type: "stop",
+            previousState: Stopwatch.State.RUNNING,
+            state: Stopwatch.State.STOPPED,
+            time: this.getTime()
+        });
+        this.updateThresholds();
+
+        for (const child of this.children) {
+            child.stopAtSystemTime(systemTime);
+        }
+    }
+
+    /**
+     * Measures the duration of a single synchronous call of a function.
+     *
+     * @param fn - The function to call.
+     * @param getSystemTime - A callback that returns the current system time.
+     *        See {@link Stopwatch} constructor for details.
+     * @return the result of the function call, and its duration.
+     * @throws whatever `fn` throws. If the thrown value is an extensible object,
+     *         then the duration is attached to it as a `duration` property
+     *         (see {@link Stopwatch.TimedError}).
+     */
+    public static time<T>(
+        fn: () => T,
+        getSystemTime?: Stopwatch.GetTimeFunc
+    ): Stopwatch.TimedResult<T> {
+        const stopwatch = new Stopwatch(getSystemTime);
+        let result: T;
+
+        stopwatch.start();
+
+        try {
+            result = fn();
+        } catch (error) {
+            throw attachDuration(error, stopwatch.stop());
+        }
+
+        return {
+            result: result,
+            duration: stopwatch.stop()
+        };
+    }
+
+    /**
+     * Measures the duration of an asynchronous operation.
+     *
+     * If a function is provided, then it is called and the duration is measured
+     * until its returned Promise settles.
+     * If a Promise is provided, then the duration is measured from the call to
+     * this method until the Promise settles.
+     *
+     * @param fnOrPromise - A (typically Promise-returning) function to call,
+     *        or a Promise.
+     * @param getSystemTime - A callback that returns the current system time.
+     *        See {@link Stopwatch} constructor for details.
+     * @return a Promise of the result of the operation, and its duration.
+     *         The Promise is rejected with whatever `fnOrPromise` throws or rejects with.
+     *         If the rejection value is an extensible object, then the duration is
+     *         attached to it as a `duration` property (see {@link Stopwatch.TimedError}).
+     */
+    public static timeAsync<T>(
+        fnOrPromise: (() => T | PromiseLike<T>) | PromiseLike<T>,
+        getSystemTime?: Stopwatch.GetTimeFunc
+    ): Promise<Stopwatch.TimedResult<T>> {
+        const stopwatch = new Stopwatch(getSystemTime);
+
+        stopwatch.start();
+
+        return new Promise<T>((resolve) => {
+            resolve(
+                typeof fnOrPromise === "function" ? fnOrPromise() : fnOrPromise
+            );
+        }).then(
+            (result) => ({
+                result: result,
+                duration: stopwatch.stop()
+            }),
+            (error) => {
+                throw attachDuration(error, stopwatch.stop());
+            }
+        );
+    }
+
+    /**
+     * Gets the root of the hierarchy of child stopwatches that this stopwatch belongs to.
+     * @return the root stopwatch (which is this stopwatch if it has no parent).
+     */
+    private getRoot(): Stopwatch<M> {
+        return this.parent ? this.parent.getRoot() : this;
+    }
+
+    /**
+     * Calculates the stopwatch time of the root stopwatch (see {@link #getRoot})
+     * as of a specified system time.
+     * @param systemTime - The system time for the calculation.
+     * @return the root stopwatch time as of the specified system time.
+     */
+    private calculateRootStopwatchTime(systemTime: number): number {
+        const root = this.getRoot();
+
+        return root.calculateStopwatchTime(
+            root.stopSystemTime === undefined
+                ? systemTime
+                : Math.min(systemTime, root.stopSystemTime)
+        );
+    }
+
+    /**
+     * Private implementation of {@link #getTree}.
+     * @param systemNow - The current system time, for calculating the end offsets
+     *        of running stopwatches.
+     * @return the hierarchy of timings of this stopwatch.
+     */
+    private createTreeNode(systemNow: number): Stopwatch.TreeNode {
+        const state = this.getState();
+        const time = this.calculateStopwatchTime(
+            state === Stopwatch.State.RUNNING ? systemNow : undefined
+        );
+        let startOffset: number | undefined;
+        let endOffset: number | undefined;
+
+        if (state !== Stopwatch.State.IDLE && !this.parent) {
+            startOffset = 0;
+            endOffset = time;
+        } else if (state !== Stopwatch.State.IDLE) {
+            startOffset = this.treeStartOffset;
+            endOffset =
+                state === Stopwatch.State.RUNNING
+                    ? this.calculateRootStopwatchTime(systemNow)
+                    : this.treeEndOffset;
+        }
+
+        return {
+            name: this.name,
+            state: state,
+            time: time,
+            startOffset: startOffset,
+            endOffset: endOffset,
+            children: this.children.map((child) =>
+                child.createTreeNode(systemNow)
+            )
+        };
+    }
+
+    /**
+     * Private implementation of manually adjusting the stopwatch time.
+     * See {@link #adjust} for more explanation.
+     * @param previousTime - The current stopwatch time.
+     * @param time - The adjusted stopwatch time.
+     * @param reason - An optional description of the reason for the adjustment.
+     * @return the recorded adjustment.
+     * @throws Error if `time` is negative.
+     */
+    private recordAdjustment(
+        previousTime: number,
+        time: number,
+        reason?: string
+    ): Stopwatch.Adjustment {
+        if (time < 0) {
+            throw new Error(`Stopwatch time cannot be adjusted to ${time}`);
+        }
+
+        const state = this.getState();
+        const adjustment = createAdjustment(state, previousTime, time, reason);
+
+        this.adjustments.push(adjustment);
+        this.adjustmentTotal += adjustment.delta;
+
+        // Keep the pending slice from ending before it started
+        if (
+            this.pendingSliceStartStopwatchTime !== undefined &&
+            this.pendingSliceStartStopwatchTime > time
+        ) {
+            this.pendingSliceStartStopwatchTime = time;
+        }
+
+        this.emit("adjust", {
+            type: "adjust",
+            previousState: state,
+            state: state,
+            time: time,
+            adjustment: adjustment
+        });
+        this.updateThresholds();
+
+        return adjustment;
+    }
+
+    /**
+     * Registers a threshold, without validating it. See {@link #addThreshold}.
+     * @param threshold - The threshold.
+     * @param isDeadline - True if the threshold is the deadline of a signal
+     *        (see {@link #signalAfter}), rather than a threshold added by the user.
+     * @return a function that unregisters the threshold.
+     */
+    private registerThreshold(
+        threshold: Stopwatch.Threshold,
+        isDeadline: boolean
+    ): Stopwatch.CancelFunc {
+        const registration: ThresholdRegistration = {
+            threshold: threshold,
+            isDeadline: isDeadline,
+            fired: false
+        };
+
+        this.thresholds.push(registration);
+        this.updateThresholds();
+
+        return () => {
+            const index = this.thresholds.indexOf(registration);
+
+            if (index !== -1) {
+                this.thresholds.splice(index, 1);
+                this.updateThresholds();
+            }
+        };
+    }
+
+    /**
+     * Gets the value of this stopwatch that a threshold applies to.
+     * @param threshold - The threshold.
+     * @param time - The current stopwatch time.
+     * @return the total stopwatch time, or the duration of the current pending slice,
+     *         depending on the threshold's target.
+     */
+    private getThresholdValue(
+        threshold: Stopwatch.Threshold,
+        time: number
+    ): number {
+        if (threshold.target !== "slice") {
+            return time;
+        }
+
+        return this.pendingSliceStartStopwatchTime === undefined
+            ? 0
+            : time - this.pendingSliceStartStopwatchTime;
+    }
+
+    /**
+     * Calls the callback of every armed threshold that has been crossed, and disarms it.
+     * Does nothing if the state is {@link Stopwatch.State#IDLE}.
+     * @param time - The current stopwatch time.
+     */
+    private checkThresholds(time: number): void {
+        if (this.startSystemTime === undefined) {
+            return;
+        }
+
+        // Iterate a copy so that callbacks may safely add/remove thresholds
+        for (const registration of Array.from(this.thresholds)) {
+            const threshold = registration.threshold;
+            const value = this.getThresholdValue(threshold, time);
+
+            if (!registration.fired && value >= threshold.limit) {
+                // Disarm first, so that the callback cannot trigger it again
+                registration.fired = true;
+                threshold.callback({
+                    threshold: threshold,
+                    time: time,
+                    value: value
+                });
+            }
+        }
+    }
+
+    /**
+     * Checks all thresholds, then (re)schedules the next check for when the next armed
+     * threshold is due, if the stopwatch is running.
+     * Called whenever the state, the stopwatch time, the pending slice, or the
+     * thresholds change.
+     */
+    private updateThresholds(): void {
+        if (this.thresholds.length > 0) {
+            this.checkThresholds(this.calculateThresholdCheckTime());
+        }
+
+        // Callbacks may have changed anything, including via a nested update
+        if (this.cancelThresholdCheck) {
+            this.cancelThresholdCheck();
+            this.cancelThresholdCheck = undefined;
+        }
+
+        if (!this.isRunning() || this.thresholds.length === 0) {
+            return;
+        }
+
+        const time = this.calculateThresholdCheckTime();
+        let delay = Infinity;
+
+        for (const registration of this.thresholds) {
+            if (!registration.fired) {
+                delay = Math.min(
+                    delay,
+                    registration.threshold.limit -
+                        this.getThresholdValue(registration.threshold, time)
+                );
+            }
+        }
+
+        if (delay !== Infinity) {
+            const schedule = this.options.schedule || defaultScheduleFunc;
+
+            this.cancelThresholdCheck = schedule(() => {
+                this.cancelThresholdCheck = undefined;
+                this.updateThresholds();
+            }, Math.max(0, delay));
+        }
+    }
+
+    /**
+     * Calculates the current stopwatch time for checking thresholds.
+     * Unlike {@link #calculateStopwatchTime}, this never throws due to the "throw"
+     * {@link Stopwatch.Options#clockBackwardsPolicy}, because checks may be scheduled
+     * (with no caller to throw to). Backward jumps are still reported via the
+     * "clockBackwards" event.
+     * @return the current stopwatch time.
+     */
+    private calculateThresholdCheckTime(): number {
+        return this.calculateStopwatchTime(
+            this.isRunning() ? this.readSystemTime(false) : undefined
+        );
+    }
+
+    /**
+     * Reads the current system time from {@link #getSystemTime}, protected against
+     * the system time going backwards according to
+     * {@link Stopwatch.Options#clockBackwardsPolicy}.
+     * @param allowThrow - If false, then the "throw" policy behaves like "clamp".
+     * @return the current system time, which is never less than any previously
+     *         returned system time.
+     * @throws Error if the system time just went backwards, the policy is "throw",
+     *         and `allowThrow` is true.
+     */
+    private readSystemTime(allowThrow: boolean = true): number {
+        const rawSystemTime = this.getSystemTime();
+        const lastRawSystemTime = this.lastRawSystemTime;
+        let systemTime = rawSystemTime + this.systemTimeOffset;
+
+        this.lastRawSystemTime = rawSystemTime;
+
+        if (
+            lastRawSystemTime !== undefined &&
+            rawSystemTime < lastRawSystemTime
+        ) {
+            const policy = this.options.clockBackwardsPolicy || "clamp";
+            const jump = lastRawSystemTime - rawSystemTime;
+            const state = this.getState();
+
+            this.emit("clockBackwards", {
+                type: "clockBackwards",
+                previousState: state,
+                state: state,
+                time: this.calculateStopwatchTime(
+                    this.stopSystemTime === undefined
+                        ? this.lastSystemTime
+                        : this.stopSystemTime
+                ),
+                jump: jump,
+                policy: policy
+            });
+
+            if (policy === "throw" && allowThrow) {
+                throw new Error(`System time went backwards by ${jump}`);
+            } else if (policy === "ignore") {
+                this.systemTimeOffset += jump;
+                systemTime += jump;
+            }
+        }
+
+        // Never return a time less than a previously returned time
+        if (this.lastSystemTime !== undefined) {
+            systemTime = Math.max(systemTime, this.lastSystemTime);
+        }
+
+        this.lastSystemTime = systemTime;
+
+        return systemTime;
+    }
+
+    /**
+     * Gets the system time equivalent of the current stopwatch time.
+     * If this stopwatch is currently stopped, then the system time at which it was
+     * stopped is returned.
+     * Otherwise, the current system time according to {@link #readSystemTime} is
+     * returned.
+     * @return the system time equivalent of the current stopwatch time.
+     */
+    private getSystemTimeOfCurrentStopwatchTime(): number {
+        return this.stopSystemTime === undefined
+            ? this.readSystemTime()
+            : this.stopSystemTime;
+    }
+
+    /**
+     * Calculates the current stopwatch time as of a specified system time.
+     * @param endSystemTime - The end system time for the calculation.
+     * @return the current stopwatch time as of the specified system time.
+     */
+    private calculateStopwatchTime(endSystemTime?: number): number {
+        if (this.startSystemTime === undefined) {
+            return this.adjustmentTotal;
+        }
+
+        if (endSystemTime === undefined) {
+            endSystemTime = this.getSystemTimeOfCurrentStopwatchTime();
+        }
+
+        return (
+            endSystemTime -
+            this.startSystemTime -
+            this.stopDuration +
+            this.adjustmentTotal
+        );
+    }
+
+    /**
+     * Calculates the current pending slice as of a specified stopwatch time.
+     * @param endStopwatchTime - The end stopwatch time for the calculation.
+     * @return the current pending slice as of the specified stopwatch time.
+     */
+    private calculatePendingSlice(
+        endStopwatchTime?: number
+    ): Stopwatch.Slice<M> {
+        if (this.pendingSliceStartStopwatchTime === undefined) {
+            return createSlice<M>(0, 0);
+        }
+
+        if (endStopwatchTime === undefined) {
+            endStopwatchTime = this.getTime();
+        }
+
+        return createSlice<M>(
+            this.pendingSliceStartStopwatchTime,
+            endStopwatchTime
+        );
+    }
+
+    /**
+     * Get the retained completed slices, after discarding slices that have aged out of
+     * the slice retention window as of the current stopwatch time.
+     * See {@link Stopwatch.Options#sliceRetentionWindow}.
+     * @return the retained completed slices (not a copy).
+     */
+    private getRetainedSlices(): Stopwatch.Slice<M>[] {
+        if (this.options.sliceRetentionWindow !== undefined) {
+            this.discardUnretainedSlices(this.calculateStopwatchTime());
+        }
+
+        return this.completedSlices;
+    }
+
+    /**
+     * Discards the oldest completed slices that exceed the slice retention limits.
+     * See {@link Stopwatch.Options#maxRetainedSlices} and
+     * {@link Stopwatch.Options#sliceRetentionWindow}.
+     * @param time - The current stopwatch time, if known. The retention window ends at
+     *        the later of this time and the end time of the latest slice.
+     */
+    private discardUnretainedSlices(time?: number): void {
+        const slices = this.completedSlices;
+        const { maxRetainedSlices, sliceRetentionWindow } = this.options;
+        let discardCount =
+            maxRetainedSlices === undefined
+                ? 0
+                : Math.max(0, slices.length - maxRetainedSlices);
+
+        if (sliceRetentionWindow !== undefined && slices.length > 0) {
+            const latestEndTime = slices[slices.length - 1].endTime;
+            const minEndTime =
+                (time === undefined
+                    ? latestEndTime
+                    : Math.max(time, latestEndTime)) - sliceRetentionWindow;
+
+            while (
+                discardCount < slices.length &&
+                slices[discardCount].endTime < minEndTime
+            ) {
+                ++discardCount;
+            }
+        }
+
+        for (const slice of slices.splice(0, discardCount)) {
+            this.sliceStatistics.remove(slice.duration);
+        }
+    }
+
+    /**
+     * Private implementation of ending/recording the currently pending slice.
+     * See {@link #slice} for more explanation.
+     * @param endStopwatchTime - The end stopwatch time of the slice.
+     * @param label - An optional label for the slice.
+     * @param metadata - Optional arbitrary metadata for the slice.
+     * @return the recorded slice.
+     */
+    private recordPendingSlice(
+        endStopwatchTime?: number,
+        label?: string,
+        metadata?: M
+    ): Stopwatch.Slice<M> {
+        if (this.pendingSliceStartStopwatchTime !== undefined) {
+            if (endStopwatchTime === undefined) {
+                endStopwatchTime = this.getTime();
+            }
+
+            const slice = createSlice(
+                this.pendingSliceStartStopwatchTime,
+                endStopwatchTime,
+                label,
+                metadata
+            );
+
+            // The slice may have crossed a threshold since it was last checked
+            this.checkThresholds(slice.endTime);
+
+            // Start the next pending slice, and re-arm the slice thresholds for it
+            this.pendingSliceStartStopwatchTime = slice.endTime;
+
+            for (const registration of this.thresholds) {
+                if (registration.threshold.target === "slice") {
+                    registration.fired = false;
+                }
+            }
+
+            // Record the slice
+            this.completedSlices.push(slice);
+            this.sliceStatistics.add(slice.duration);
+            this.sliceTotals = addToSliceTotals(
+                this.sliceTotals,
+                slice.duration
+            );
+            this.discardUnretainedSlices();
+
+            const state = this.getState();
+            this.emit("slice", {
+                type: "slice",
+                previousState: state,
+                state: state,
+                time: slice.endTime,
+                slice: slice
+            });
+            this.updateThresholds();
+
+            return slice;
+        } else {
+            return this.calculatePendingSlice();
+        }
+    }
+}
+
+export namespace Stopwatch {
+    /**
+     * A function that returns "the current time" of some system.
+     * The only requirement is that each call to this function must return a number
+     * that is greater than or equal to the previous call to the function.
+     */
+    export type GetTimeFunc = () => number;
+
+    /**
+     * A function that schedules a callback to be called after a delay.
+     * The unit of the delay is expected to match the unit of time of the
+     * {@link Stopwatch.GetTimeFunc} that the delay is derived from.
+     *
+     * Used by time-driven features (e.g., {@link Timer}) so that they can be driven
+     * by a custom/fake source of time.
+     *
+     * @param callback - The callback to call after the delay.
+     * @param delay - The amount of time to wait before calling the callback.
+     * @return a function that cancels the scheduled callback if it has not yet been called.
+     */
+    export type ScheduleFunc = (
+        callback: () => void,
+        delay: number
+    ) => CancelFunc;
+
+    /**
+     * A callback subscribed via {@link Stopwatch#onTick}.
+     *
+     * @param time - The current stopwatch time.
+     */
+    export type TickCallback = (time: number) => void;
+
+    /**
+     * A function that cancels something that was previously scheduled.
+     * Calling it more than once, or after the scheduled callback was called,
+     * does nothing.
+     */
+    export type CancelFunc = () => void;
+
+    /**
+     * Measurements of a single "slice" recorded by a {@link Stopwatch}.
+     *
+     * @template M - The type of the slice's metadata.
+     */
+    export interface Slice<M = unknown> {
+        /**
+         * The stopwatch time at the start of this slice.
+         */
+        readonly startTime: number;
+        /**
+         * The stopwatch time at the end of this slice.
+         */
+        readonly endTime: number;
+        /**
+         * The running duration of this slice (a.k.a., "split time").
+         */
+        readonly duration: number;
+        /**
+         * The label this slice was recorded with, if any.
+         */
+        readonly label?: string;
+        /**
+         * The arbitrary metadata this slice was recorded with, if any.
+         */
+        readonly metadata?: M;
+    }
+
+    /**
+     * A completed slice of a {@link Stopwatch}, viewed as a lap of a sports stopwatch.
+     * The lap time is the slice's `duration`.
+     * See {@link Stopwatch#getLaps}.
+     *
+     * @template M - The type of the slice's metadata.
+     */
+    export interface Lap<M = unknown> extends Slice<M> {
+        /**
+         * The 1-based number of this lap.
+         */
+        readonly number: number;
+        /**
+         * The cumulative stopwatch time at the end of this lap (same as `endTime`).
+         */
+        readonly splitTime: number;
+        /**
+         * True if this is the fastest (shortest) lap.
+         */
+        readonly isFastest: boolean;
+        /**
+         * True if this is the slowest (longest) lap.
+         */
+        readonly isSlowest: boolean;
+        /**
+         * The difference between this lap's time and the fastest lap's time
+         * (zero or positive).
+         */
+        readonly deltaToFastest: number;
+        /**
+         * The difference between this lap's time and the previous lap's time
+         * (negative if this lap was faster).
+         * Undefined for the first lap.
+         */
+        readonly deltaToPrevious: number | undefined;
+    }
+
+    /**
+     * An interval of time during which a {@link Stopwatch} was continuously in the same
+     * state. See {@link Stopwatch#getRunIntervals} and {@link Stopwatch#getStopIntervals}.
+     */
+    export interface Interval {
+        /**
+         * The system time at the start of this interval.
+         */
+        readonly startSystemTime: number;
+        /**
+         * The system time at the end of this interval.
+         */
+        readonly endSystemTime: number;
+        /**
+         * The stopwatch time at the start of this interval.
+         */
+        readonly startTime: number;
+        /**
+         * The stopwatch time at the end of this interval.
+         */
+        readonly endTime: number;
+        /**
+         * The amount of system time that elapsed during this interval.
+         */
+        readonly duration: number;
+    }
+
+    /**
+     * Details of an event emitted by a {@link Stopwatch}.
+     * See {@link Stopwatch.EventMap}.
+     */
+    export interface Event {
+        /**
+         * The type of the event.
+         */
+        readonly type: EventType;
+        /**
+         * The state of the stopwatch before the event.
+         */
+        readonly previousState: State;
+        /**
+         * The state of the stopwatch after the event.
+         */
+        readonly state: State;
+        /**
+         * The stopwatch time immediately after the event.
+         */
+        readonly time: number;
+    }
+
+    /**
+     * Details of an "adjust" event emitted by a {@link Stopwatch}.
+     */
+    export interface AdjustEvent extends Event {
+        /**
+         * The recorded adjustment.
+         */
+        readonly adjustment: Adjustment;
+    }
+
+    /**
+     * A manual adjustment of the stopwatch time of a {@link Stopwatch}.
+     * See {@link Stopwatch#adjust} and {@link Stopwatch#setTime}.
+     */
+    export interface Adjustment {
+        /**
+         * The state of the stopwatch when the adjustment was made.
+         */
+        readonly state: State;
+        /**
+         * The stopwatch time immediately before the adjustment.
+         */
+        readonly previousTime: number;
+        /**
+         * The stopwatch time immediately after the adjustment.
+         */
+        readonly time: number;
+        /**
+         * The amount of time that was added to the stopwatch time (negative if
+         * time was subtracted).
+         */
+        readonly delta: number;
+        /**
+         * The reason for the adjustment, if any.
+         */
+        readonly reason?: string;
+    }
+
+    /**
+     * Details of a "clockBackwards" event emitted by a {@link Stopwatch}.
+     */
+    export interface ClockBackwardsEvent extends Event {
+        /**
+         * The amount of time that the system time went backwards by.
+         */
+        readonly jump: number;
+        /**
+         * The policy that is applied to the backward jump.
+         */
+        readonly policy: ClockBackwardsPolicy;
+    }
+
+    /**
+     * How a {@link Stopwatch} handles its "system time getter" returning a time that
+     * is less than a previously returned time (e.g., due to an NTP adjustment of the
+     * computer's time when using {@link Date.now}):
+     * - "clamp": Time stands still until the system time catches up with the
+     *   previously returned time.
+     * - "ignore": The backward jump is absorbed, so that time continues to pass from
+     *   the previously returned time as the system time advances from its new value.
+     * - "throw": An Error is thrown by whichever method read the system time when the
+     *   backward jump was detected. After that, time stands still as with "clamp".
+     *   Scheduled checks of thresholds (see {@link Stopwatch#addThreshold}) never
+     *   throw, because there is no caller to throw to.
+     *
+     * In all cases, the stopwatch time (and the duration of slices) never decreases,
+     * and a "clockBackwards" event is emitted once for each backward jump.
+     */
+    export type ClockBackwardsPolicy = "clamp" | "ignore" | "throw";
+
+    /**
+     * Optional configuration of a {@link Stopwatch}.
+     */
+    export interface Options {
+        /**
+         * How to handle the "system time getter" going backwards.
+         * Defaults to "clamp".
+         * See {@link Stopwatch.ClockBackwardsPolicy}.
+         */
+        clockBackwardsPolicy?: ClockBackwardsPolicy;
+        /**
+         * The maximum number of completed slices to retain. When more slices are
+         * recorded, the oldest slices are discarded.
+         * Defaults to unlimited.
+         */
+        maxRetainedSlices?: number;
+        /**
+         * The trailing amount of stopwatch time within which completed slices are
+         * retained: slices that ended more than this amount of time before the current
+         * stopwatch time are discarded. Slices are discarded whenever a slice is
+         * recorded, and whenever completed slices or their statistics are read, so
+         * slices age out even if no more slices are recorded.
+         * Defaults to unlimited.
+         */
+        sliceRetentionWindow?: number;
+        /**
+         * Thresholds to register. See {@link Stopwatch#addThreshold}.
+         * Not inherited by child stopwatches.
+         */
+        thresholds?: ReadonlyArray<Threshold>;
+        /**
+         * Schedules checks of thresholds while the stopwatch is running.
+         * Defaults to `setTimeout`.
+         * Provide a custom implementation when using a custom "system time getter".
+         */
+        schedule?: ScheduleFunc;
+    }
+
+    /**
+     * The value that a {@link Stopwatch.Threshold} applies to:
+     * - "total": The total stopwatch time (see {@link Stopwatch#getTime}).
+     * - "slice": The duration of the current pending slice
+     *   (see {@link Stopwatch#getPendingSlice}).
+     */
+    export type ThresholdTarget = "total" | "slice";
+
+    /**
+     * A time budget, with a callback to call when it is crossed.
+     * See {@link Stopwatch#addThreshold}.
+     */
+    export interface Threshold {
+        /**
+         * The amount of time at which the threshold is crossed.
+         */
+        readonly limit: number;
+        /**
+         * The value that the threshold applies to.
+         * Defaults to "total".
+         */
+        readonly target?: ThresholdTarget;
+        /**
+         * Called once when the threshold is crossed.
+         */
+        readonly callback: (event: ThresholdEvent) => void;
+    }
+
+    /**
+     * Details of a crossed {@link Stopwatch.Threshold}.
+     */
+    export interface ThresholdEvent {
+        /**
+         * The threshold.
+         */
+        readonly threshold: Threshold;
+        /**
+         * The stopwatch time at which the crossing was detected.
+         */
+        readonly time: number;
+        /**
+         * The value that the threshold applies to, at the time the crossing was
+         * detected. May exceed the threshold's limit.
+         */
+        readonly value: number;
+    }
+
+    /**
+     * Details of a "slice" event emitted by a {@link Stopwatch}.
+     *
+     * @template M - The type of the slice's metadata.
+     */
+    export interface SliceEvent<M = unknown> extends Event {
+        /**
+         * The recorded slice.
+         */
+        readonly slice: Slice<M>;
+    }
+
+    /**
+     * All events emitted by a {@link Stopwatch}, keyed by event type.
+     *
+     * @template M - The type of slice metadata.
+     */
+    export interface EventMap<M = unknown> {
+        /**
+         * Emitted when the stopwatch is started from the {@link Stopwatch.State#IDLE} state.
+         */
+        start: Event;
+        /**
+         * Emitted when the stopwatch is resumed from the {@link Stopwatch.State#STOPPED} state.
+         */
+        resume: Event;
+        /**
+         * Emitted when the stopwatch is stopped from the {@link Stopwatch.State#RUNNING} state.
+         */
+        stop: Event;
+        /**
+         * Emitted when a slice is recorded. Does not change the state.
+         */
+        slice: SliceEvent<M>;
+        /**
+         * Emitted when the stopwatch is reset from any state other than
+         * {@link Stopwatch.State#IDLE}.
+         */
+        reset: Event;
+        /**
+         * Emitted when the stopwatch time is manually adjusted. Does not change the state.
+         * See {@link Stopwatch#adjust}.
+         */
+        adjust: AdjustEvent;
+        /**
+         * Emitted when the "system time getter" returns a time that is less than a
+         * previously returned time. Does not change the state.
+         * See {@link Stopwatch.Options#clockBackwardsPolicy}.
+         */
+        clockBackwards: ClockBackwardsEvent;
+    }
+
+    /**
+     * Types of events emitted by a {@link Stopwatch}.
+     */
+    export type EventType = keyof EventMap;
+
+    /**
+     * A listener for {@link Stopwatch} events.
+     */
+    export type Listener<E extends Event> = (event: E) => void;
+
+    /**
+     * Timings of a {@link Stopwatch} and all of its descendant child stopwatches.
+     * See {@link Stopwatch#getTree}.
+     */
+    export interface TreeNode {
+        /**
+         * The name of the stopwatch, or undefined for the root stopwatch.
+         */
+        readonly name: string | undefined;
+        /**
+         * The state of the stopwatch.
+         */
+        readonly state: State;
+        /**
+         * The stopwatch time of the stopwatch (see {@link Stopwatch#getTime}).
+         */
+        readonly time: number;
+        /**
+         * The root stopwatch time at which the stopwatch was started.
+         * Undefined if the stopwatch is {@link Stopwatch.State#IDLE}.
+         */
+        readonly startOffset: number | undefined;
+        /**
+         * The root stopwatch time at which the stopwatch was stopped, or the current
+         * root stopwatch time if the stopwatch is {@link Stopwatch.State#RUNNING}.
+         * Undefined if the stopwatch is {@link Stopwatch.State#IDLE}.
+         */
+        readonly endOffset: number | undefined;
+        /**
+         * Timings of all child stopwatches.
+         */
+        readonly children: ReadonlyArray<TreeNode>;
+    }
+
+    /**
+     * The result of {@link Stopwatch.time} or {@link Stopwatch.timeAsync}.
+     *
+     * @template T - The type of the result of the timed operation.
+     */
+    export interface TimedResult<T> {
+        /**
+         * The result of the timed operation.
+         */
+        readonly result: T;
+        /**
+         * The duration of the timed operation.
+         */
+        readonly duration: number;
+    }
+
+    /**
+     * An error thrown by an operation timed by {@link Stopwatch.time} or
+     * {@link Stopwatch.timeAsync}, with the duration of the operation attached.
+     */
+    export interface TimedError extends Error {
+        /**
+         * The duration of the timed operation until the error was thrown.
+         */
+        duration: number;
+    }
+
+    /**
+     * Running totals of the durations of all slices recorded by a {@link Stopwatch}.
+     * See {@link Stopwatch#getSliceTotals}.
+     *
+     * `mean`, `min`, and `max` are NaN if no slices have been recorded.
+     */
+    export interface SliceTotals {
+        /**
+         * The number of recorded slices.
+         */
+        readonly count: number;
+        /**
+         * The total duration of all recorded slices.
+         */
+        readonly total: number;
+        /**
+         * The mean duration.
+         */
+        readonly mean: number;
+        /**
+         * The shortest duration.
+         */
+        readonly min: number;
+        /**
+         * The longest duration.
+         */
+        readonly max: number;
+    }
+
+    /**
+     * Statistics of the durations of completed slices.
+     * See {@link Stopwatch#getSliceStats}.
+     *
+     * All statistics other than `count` and `total` are NaN if there are no slices.
+     */
+    export interface SliceStats {
+        /**
+         * The number of slices.
+         */
+        readonly count: number;
+        /**
+         * The total duration of all slices.
+         */
+        readonly total: number;
+        /**
+         * The shortest slice duration.
+         */
+        readonly min: number;
+        /**
+         * The longest slice duration.
+         */
+        readonly max: number;
+        /**
+         * The mean slice duration.
+         */
+        readonly mean: number;
+        /**
+         * The median slice duration.
+         */
+        readonly median: number;
+        /**
+         * The (population) standard deviation of slice durations.
+         */
+        readonly standardDeviation: number;
+        /**
+         * Requested percentiles of slice durations, keyed by percentile (e.g., `90` for p90).
+         * Calculated with linear interpolation between the closest ranks.
+         */
+        readonly percentiles: { readonly [percentile: number]: number };
+    }
+
+    /**
+     * Options for {@link Stopwatch#getSliceStats}.
+     *
+     * @template M - The type of slice metadata.
+     */
+    export interface SliceStatsOptions<M = unknown> {
+        /**
+         * The percentiles (from 0 to 100) to include in the result.
+         * Defaults to `[90, 95, 99]`.
+         */
+        percentiles?: ReadonlyArray<number>;
+        /**
+         * If provided, only slices for which this function returns true are included.
+         */
+        filter?: (slice: Slice<M>) => boolean;
+    }
+
+    /**
+     * Total durations of completed slices, keyed by slice label.
+     * See {@link Stopwatch#getLabelTotals}.
+     */
+    export interface LabelTotals {
+        [label: string]: number;
+    }
+
+    /**
+     * Possible states of a {@link Stopwatch}.
+     */
+    export enum State {
+        /**
+         * The stopwatch has not yet been started, or has been reset.
+         */
+        IDLE = "IDLE",
+        /**
+         * The stopwatch is currently running.
+         */
+        RUNNING = "RUNNING",
+        /**
+         * The stopwatch was previously running, but has been stopped.
+         */
+        STOPPED = "STOPPED"
+    }
+
+    /**
+     * The current version of the {@link Stopwatch.Snapshot} format.
+     */
+    export const SNAPSHOT_VERSION = 5;
+
+    /**
+     * A JSON-safe snapshot of the complete internal state of a {@link Stopwatch}.
+     * Created by {@link Stopwatch#toJSON} and restored by {@link Stopwatch.fromJSON}.
+     *
+     * Properties that are not applicable to the stopwatch's current state are `null`.
+     *
+     * NOTE: Slice metadata is included as-is, so it is only JSON-safe if the metadata
+     *       itself is JSON-safe.
+     *
+     * @template M - The type of slice metadata.
+     */
+    export interface Snapshot<M = unknown> {
+        /**
+         * The version of the snapshot format. See {@link Stopwatch.SNAPSHOT_VERSION}.
+         */
+        readonly version: number;
+        /**
+         * The system time at which the stopwatch was started.
+         */
+        readonly startSystemTime: number | null;
+        /**
+         * The system time at which the stopwatch was stopped.
+         */
+        readonly stopSystemTime: number | null;
+        /**
+         * The total amount of system time the stopwatch has been stopped.
+         */
+        readonly stopDuration: number;
+        /**
+         * All completed intervals during which the stopwatch was stopped.
+         */
+        readonly completedStopIntervals: ReadonlyArray<Interval>;
+        /**
+         * All manual adjustments of the stopwatch time.
+         */
+        readonly adjustments: ReadonlyArray<Adjustment>;
+        /**
+         * The stopwatch time at which the pending slice was started.
+         */
+        readonly pendingSliceStartStopwatchTime: number | null;
+        /**
+         * All retained completed slices.
+         */
+        readonly completedSlices: ReadonlyArray<Slice<M>>;
+        /**
+         * Running totals of all recorded slices (see {@link Stopwatch.SliceTotals}).
+         */
+        readonly sliceTotals: {
+            readonly count: number;
+            readonly total: number;
+            readonly min: number | null;
+            readonly max: number | null;
+        };
+        /**
+         * The amount of time added to every system time, to absorb backward jumps of
+         * the system time (see {@link Stopwatch.ClockBackwardsPolicy}).
+         */
+        readonly systemTimeOffset: number;
+        /**
+         * The most recent raw system time, before adding `systemTimeOffset`.
+         */
+        readonly lastRawSystemTime: number | null;
+    }
+
+    /**
+     * Sets the default implementation of "getSystemTime" to be used by all future
+     * instances of {@link Stopwatch}.
+     * @param systemTimeGetter - A default "getSystemTime" implementation for
+     *        all future instances of {@link Stopwatch}.
+     *        Defaults to {@link Date.now}.
+     */
+    export function setDefaultSystemTimeGetter(
+        systemTimeGetter: GetTimeFunc = Date.now
+    ): void {
+        defaultSystemTimeGetter = systemTimeGetter;
+    }
+}
+
+/**
+ * The default "getSystemTime" implementation for all new instances of
+ * {@link Stopwatch}.
+ * Defaults to {@link Date.now}.
+ * Updated via {@link Stopwatch.setDefaultSystemTimeGetter}.
+ */
+let defaultSystemTimeGetter: Stopwatch.GetTimeFunc = Date.now;
+
+/**
+ * An event listener registered with a {@link Stopwatch}.
+ */
+interface ListenerRegistration {
+    /**
+     * The registered listener.
+     */
+    readonly listener: Stopwatch.Listener<Stopwatch.Event>;
+    /**
+     * True if the listener should be removed after the next event.
+     */
+    readonly once: boolean;
+}
+
+declare global {
+    /**
+     * Minimal declaration of the standard `AbortSignal` type returned by
+     * {@link Stopwatch#signalAfter}. Merges with the full declaration, if any.
+     */
+    interface AbortSignal {}
+}
+
+/**
+ * A threshold registered with a {@link Stopwatch}.
+ */
+interface ThresholdRegistration {
+    /**
+     * The registered threshold.
+     */
+    readonly threshold: Stopwatch.Threshold;
+    /**
+     * True if the threshold is the deadline of a signal (see
+     * {@link Stopwatch#signalAfter}), which does not count towards the budget.
+     */
+    readonly isDeadline: boolean;
+    /**
+     * True if the threshold's callback has been called since it was last armed.
+     */
+    fired: boolean;
+}
+
+/**
+ * Creates a new read-only {@link Stopwatch.Slice}.
+ * The `label` and `metadata` properties are only included if they are defined.
+ * @param startTime - The stopwatch time at the start of the slice.
+ * @param endTime - The stopwatch time at the end of the slice.
+ * @param label - An optional label for the slice.
+ * @param metadata - Optional arbitrary metadata for the slice.
+ * @return a new read-only slice.
+ */
+function createSlice<M>(
+    startTime: number,
+    endTime: number,
+    label?: string,
+    metadata?: M
+): Stopwatch.Slice<M> {
+    const slice: {
+        -readonly [P in keyof Stopwatch.Slice<M>]: Stopwatch.Slice<M>[P];
+    } = {
+        startTime: startTime,
+        endTime: endTime,
+        duration: endTime - startTime
+    };
+
+    if (label !== undefined) {
+        slice.label = label;
+    }
+
+    if (metadata !== undefined) {
+        slice.metadata = metadata;
+    }
+
+    return Object.freeze(slice);
+}
+
+/**
+ * Creates a new read-only {@link Stopwatch.SliceTotals}.
+ * @param count - The number of recorded slices.
+ * @param total - The total duration of all recorded slices.
+ * @param min - The shortest duration, or undefined if there are no slices.
+ * @param max - The longest duration, or undefined if there are no slices.
+ * @return new read-only slice totals.
+ */
+function createSliceTotals(
+    count: number,
+    total: number,
+    min: number | undefined,
+    max: number | undefined
+): Stopwatch.SliceTotals {
+    return Object.freeze({
+        count: count,
+        total: total,
+        mean: count > 0 ? total / count : NaN,
+        min: count > 0 && min !== undefined ? min : NaN,
+        max: count > 0 && max !== undefined ? max : NaN
+    });
+}
+
+/**
+ * Adds a recorded slice duration to slice totals.
+ * @param totals - The slice totals.
+ * @param duration - The duration of a recorded slice.
+ * @return new read-only slice totals that include the duration.
+ */
+function addToSliceTotals(
+    totals: Stopwatch.SliceTotals,
+    duration: number
+): Stopwatch.SliceTotals {
+    return totals.count === 0
+        ? createSliceTotals(1, duration, duration, duration)
+        : createSliceTotals(
+              totals.count + 1,
+              totals.total + duration,
+              Math.min(totals.min, duration),
+              Math.max(totals.max, duration)
+          );
+}
+
+/**
+ * Slice totals of a stopwatch that has not recorded any slices.
+ */
+const EMPTY_SLICE_TOTALS = createSliceTotals(0, 0, undefined, undefined);
+
+/**
+ * Creates a new read-only {@link Stopwatch.Interval}.
+ * @param startSystemTime - The system time at the start of the interval.
+ * @param endSystemTime - The system time at the end of the interval.
+ * @param startTime - The stopwatch time at the start of the interval.
+ * @param endTime - The stopwatch time at the end of the interval.
+ * @return a new read-only interval.
+ */
+function createInterval(
+    startSystemTime: number,
+    endSystemTime: number,
+    startTime: number,
+    endTime: number
+): Stopwatch.Interval {
+    return Object.freeze({
+        startSystemTime: startSystemTime,
+        endSystemTime: endSystemTime,
+        startTime: startTime,
+        endTime: endTime,
+        duration: endSystemTime - startSystemTime
+    });
+}
+
+/**
+ * Creates a new read-only {@link Stopwatch.Adjustment}.
+ * The `reason` property is only included if it is defined.
+ * @param state - The state of the stopwatch when the adjustment was made.
+ * @param previousTime - The stopwatch time immediately before the adjustment.
+ * @param time - The stopwatch time immediately after the adjustment.
+ * @param reason - An optional reason for the adjustment.
+ * @return a new read-only adjustment.
+ */
+function createAdjustment(
+    state: Stopwatch.State,
+    previousTime: number,
+    time: number,
+    reason?: string
+): Stopwatch.Adjustment {
+    const adjustment: {
+        -readonly [P in keyof Stopwatch.Adjustment]: Stopwatch.Adjustment[P];
+    } = {
+        state: state,
+        previousTime: previousTime,
+        time: time,
+        delta: time - previousTime
+    };
+
+    if (reason !== undefined) {
+        adjustment.reason = reason;
+    }
+
+    return Object.freeze(adjustment);
+}
+
+/**
+ * Attaches a duration to an error as a `duration` property, if possible.
+ * See {@link Stopwatch.TimedError}.
+ * @param error - An error (or any thrown value).
+ * @param duration - The duration to attach.
+ * @return the error.
+ */
+function attachDuration(error: unknown, duration: number): unknown {
+    if (
+        (typeof error === "object" || typeof error === "function") &&
+        error !== null &&
+        Object.isExtensible(error)
+    ) {
+        (error as Stopwatch.TimedError).duration = duration;
+    }
+
+    return error;
+}
+
+/**
+ * Converts an optional number to its JSON-safe equivalent.
+ * @param value - An optional number.
+ * @return the number, or `null` if it is undefined.
+ */
+function nullIfUndefined(value: number | undefined): number | null {
+    return value === undefined ? null : value;
+}
+
+/**
+ * Converts a nullable number from a {@link Stopwatch.Snapshot} back to an optional number.
+ * @param value - A nullable number.
+ * @return the number, or `undefined` if it is null.
+ */
+function undefinedIfNull(value: number | null): number | undefined {
+    return value === null ? undefined : value;
+}
+
+/**
+ * Tests if a value is a finite number.
+ * @param value - Any value.
+ * @return true if the value is a finite number.
+ */
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === "number" && isFinite(value);
+}
+
+/**
+ * Tests if a value is either a finite number or null.
+ * @param value - Any value.
+ * @return true if the value is either a finite number or null.
+ */
+function isFiniteNumberOrNull(value: unknown): value is number | null {
+    return value === null || isFiniteNumber(value);
+}
+
+/**
+ * Tests if a value is either a string or undefined.
+ * @param value - Any value.
+ * @return true if the value is either a string or undefined.
+ */
+function isOptionalString(value: unknown): value is string | undefined {
+    return value === undefined || typeof value === "string";
+}
+
+/**
+ * Tests if a value is a {@link Stopwatch.State}.
+ * @param value - Any value.
+ * @return true if the value is a {@link Stopwatch.State}.
+ */
+function isState(value: unknown): value is Stopwatch.State {
+    return (
+        value === Stopwatch.State.IDLE ||
+        value === Stopwatch.State.RUNNING ||
+        value === Stopwatch.State.STOPPED
+    );
+}
+
+/**
+ * Verifies that a value is a valid {@link Stopwatch.Snapshot} that describes a
+ * consistent stopwatch state.
+ * @param data - The value to validate.
+ * @return the value, typed as a {@link Stopwatch.Snapshot}.
+ * @throws Error if the value is not a valid {@link Stopwatch.Snapshot}.
+ */
+function validateSnapshot<M>(data: unknown): Stopwatch.Snapshot<M> {
+    if (typeof data !== "object" || data === null) {
+        throw new Error("Invalid Stopwatch snapshot: not an object");
+    }
+
+    const snapshot = data as { [key: string]: unknown };
+
+    // Version 4 snapshots are still supported; they only lack the properties that
+    // are validated for the current version below
+    if (
+        snapshot.version !== Stopwatch.SNAPSHOT_VERSION &&
+        snapshot.version !== 4
+    ) {
+        throw new Error(
+            `Invalid Stopwatch snapshot: unsupported version ${snapshot.version}`
+        );
+    }
+
+    if (
+        snapshot.version === Stopwatch.SNAPSHOT_VERSION &&
+        (!isFiniteNumber(snapshot.systemTimeOffset) ||
+            snapshot.systemTimeOffset < 0 ||
+            !isFiniteNumberOrNull(snapshot.lastRawSystemTime))
+    ) {
+        throw new Error(
+            "Invalid Stopwatch snapshot: invalid clock backwards state"
+        );
+    }
+
+    if (
+        !isFiniteNumberOrNull(snapshot.startSystemTime) ||
+        !isFiniteNumberOrNull(snapshot.stopSystemTime) ||
+        !isFiniteNumberOrNull(snapshot.pendingSliceStartStopwatchTime) ||
+        !isFiniteNumber(snapshot.stopDuration) ||
+        snapshot.stopDuration < 0
+    ) {
+        throw new Error("Invalid Stopwatch snapshot: invalid times");
+    }
+
+    const completedSlices = snapshot.completedSlices;
+
+    if (
+        !Array.isArray(completedSlices) ||
+        !completedSlices.every(
+            (slice: unknown) =>
+                typeof slice === "object" &&
+                slice !== null &&
+                isFiniteNumber((slice as Stopwatch.Slice).startTime) &&
+                isFiniteNumber((slice as Stopwatch.Slice).endTime) &&
+                isFiniteNumber((slice as Stopwatch.Slice).duration) &&
+                isOptionalString((slice as Stopwatch.Slice).label)
+        )
+    ) {
+        throw new Error("Invalid Stopwatch snapshot: invalid completed slices");
+    }
+
+    const sliceTotals = snapshot.sliceTotals as {
+        [key: string]: unknown;
+    } | null;
+
+    if (
+        typeof sliceTotals !== "object" ||
+        sliceTotals === null ||
+        !isFiniteNumber(sliceTotals.count) ||
+        sliceTotals.count < completedSlices.length ||
+        !isFiniteNumber(sliceTotals.total) ||
+        !isFiniteNumberOrNull(sliceTotals.min) ||
+        !isFiniteNumberOrNull(sliceTotals.max)
+    ) {
+        throw new Error("Invalid Stopwatch snapshot: invalid slice totals");
+    }
+
+    const completedStopIntervals = snapshot.completedStopIntervals;
+
+    if (
+        !Array.isArray(completedStopIntervals) ||
+        !completedStopIntervals.every(
+            (interval: unknown) =>
+                typeof interval === "object" &&
+                interval !== null &&
+                isFiniteNumber(
+                    (interval as Stopwatch.Interval).startSystemTime
+                ) &&
+                isFiniteNumber(
+                    (interval as Stopwatch.Interval).endSystemTime
+                ) &&
+                isFiniteNumber((interval as Stopwatch.Interval).startTime) &&
+                isFiniteNumber((interval as Stopwatch.Interval).endTime)
+        )
+    ) {
+        throw new Error(
+            "Invalid Stopwatch snapshot: invalid completed stop intervals"
+        );
+    }
+
+    const adjustments = snapshot.adjustments;
+
+    if (
+        !Array.isArray(adjustments) ||
+        !adjustments.every(
+            (adjustment: unknown) =>
+                typeof adjustment === "object" &&
+                adjustment !== null &&
+                isState((adjustment as Stopwatch.Adjustment).state) &&
+                isFiniteNumber(
+                    (adjustment as Stopwatch.Adjustment).previousTime
+                ) &&
+                isFiniteNumber((adjustment as Stopwatch.Adjustment).time) &&
+                isOptionalString((adjustment as Stopwatch.Adjustment).reason)
+        )
+    ) {
+        throw new Error("Invalid Stopwatch snapshot: invalid adjustments");
+    }
+
+    if (snapshot.startSystemTime === null) {
+        if (
+            snapshot.stopSystemTime !== null ||
+            snapshot.pendingSliceStartStopwatchTime !== null ||
+            snapshot.stopDuration !== 0 ||
+            completedSlices.length !== 0 ||
+            completedStopIntervals.length !== 0
+        ) {
+            throw new Error(
+                "Invalid Stopwatch snapshot: inconsistent IDLE state"
+            );
+        }
+    } else if (
+        snapshot.pendingSliceStartStopwatchTime === null ||
+        (snapshot.stopSystemTime !== null &&
+            snapshot.stopSystemTime < snapshot.startSystemTime)
+    ) {
+        throw new Error("Invalid Stopwatch snapshot: inconsistent state");
+    }
+
+    return data as Stopwatch.Snapshot<M>;
+}
@@ -0,0 +1,240 @@
+import { DurationFormatOptions, formatDuration } from "./format";
+import { Stopwatch } from "./Stopwatch";
+import { padEnd, padStart } from "./util";
+
+/**
+ * A collection of named {@link Stopwatch} instances, which can be controlled as a group
+ * and reported on together.
+ *
+ * Stopwatches are created on demand the first time they are requested by name
+ * (see {@link #get}), so that independent parts of an application can share a
+ * stopwatch just by agreeing on its name.
+ *
+ * @template M - The type of metadata that may be attached to recorded slices.
+ */
+export class StopwatchRegistry<M = unknown> {
+    /**
+     * All registered stopwatches, keyed by name, in order of creation.
+     */
+    private readonly stopwatches: Map<string, Stopwatch<M>> = new Map();
+
+    /**
+     * Creates a new, empty StopwatchRegistry.
+     * @param getSystemTime - A callback that returns the current system time, used
+     *        by all stopwatches created by this registry.
+     *        See {@link Stopwatch} constructor for details.
+     */
+    public constructor(
+        private readonly getSystemTime?: Stopwatch.GetTimeFunc
+    ) {}
+
+    /**
+     * Gets the stopwatch with the specified name, creating it (in the
+     * {@link Stopwatch.State#IDLE} state) if it does not yet exist.
+     * @param name - The name of the stopwatch.
+     * @return the stopwatch with the specified name.
+     */
+    public get(name: string): Stopwatch<M> {
+        let stopwatch = this.stopwatches.get(name);
+
+        if (!stopwatch) {
+            stopwatch = new Stopwatch<M>(this.getSystemTime);
+            this.stopwatches.set(name, stopwatch);
+        }
+
+        return stopwatch;
+    }
+
+    /**
+     * Tests if a stopwatch with the specified name exists.
+     * @param name - The name of a stopwatch.
+     * @return true if a stopwatch with the specified name exists.
+     */
+    public has(name: string): boolean {
+        return this.stopwatches.has(name);
+    }
+
+    /**
+     * Removes the stopwatch with the specified name from this registry.
+     * The stopwatch itself is not modified.
+     * @param name - The name of a stopwatch.
+     * @return true if a stopwatch was removed.
+     */
+    public delete(name: string): boolean {
+        return this.stopwatches.delete(name);
+    }
+
+    /**
+     * Removes all stopwatches from this registry.
+     * The stopwatches themselves are not modified.
+     */
+    public clear(): void {
+        this.stopwatches.clear();
+    }
+
+    /**
+     * Get the names of all stopwatches, in order of creation.
+     * @return the names of all stopwatches.
+     */
+    public getNames(): string[] {
+        const result: string[] = [];
+
+        this.stopwatches.forEach((stopwatch, name) => {
+            result.push(name);
+        });
+
+        return result;
+    }
+
+    /**
+     * Starts (or resumes) all stopwatches.
+     * See {@link Stopwatch#start}.
+     * @param forceReset - If true, then each stopwatch is reset before starting.
+     */
+    public startAll(forceReset: boolean = false): void {
+        this.stopwatches.forEach((stopwatch) => {
+            stopwatch.start(forceReset);
+        });
+    }
+
+    /**
+     * Stops (pauses) all stopwatches.
+     * See {@link Stopwatch#stop}.
+     */
+    public stopAll(): void {
+        this.stopwatches.forEach((stopwatch) => {
+            stopwatch.stop();
+        });
+    }
+
+    /**
+     * Resets all stopwatches.
+     * See {@link Stopwatch#reset}.
+     */
+    public resetAll(): void {
+        this.stopwatches.forEach((stopwatch) => {
+            stopwatch.reset();
+        });
+    }
+
+    /**
+     * Creates a report of the current state, time, and slice statistics of all
+     * stopwatches, in order of creation.
+     * @param options - Optional options for the slice statistics of each stopwatch.
+     *        See {@link Stopwatch#getSliceStats}.
+     * @return a report entry for each stopwatch.
+     */
+    public getReport(
+        options?: Stopwatch.SliceStatsOptions<M>
+    ): StopwatchRegistry.ReportEntry[] {
+        const result: StopwatchRegistry.ReportEntry[] = [];
+
+        this.stopwatches.forEach((stopwatch, name) => {
+            const stats = stopwatch.getSliceStats(options);
+
+            result.push({
+                name: name,
+                state: stopwatch.getState(),
+                time: stopwatch.getTime(),
+                sliceCount: stats.count,
+                stats: stats
+            });
+        });
+
+        return result;
+    }
+
+    /**
+     * Creates a report of all stopwatches (see {@link #getReport}), formatted as
+     * a plain text table with one row per stopwatch, and columns for the name,
+     * state, time, slice count, and mean/min/max slice duration.
+     *
+     * Durations are formatted with {@link formatDuration}. Statistics that are not
+     * available (because a stopwatch has no slices) are formatted as "-".
+     *
+     * @param options - Optional formatting options.
+     * @return the report, formatted as a plain text table.
+     */
+    public formatReport(
+        options: StopwatchRegistry.ReportFormatOptions = {}
+    ): string {
+        const formatTime = (duration: number): string =>
+            isNaN(duration)
+                ? "-"
+                : formatDuration(duration, options.pattern, options);
+        const rows: string[][] = [
+            ["Name", "State", "Time", "Slices", "Mean", "Min", "Max"]
+        ];
+
+        for (const entry of this.getReport()) {
+            rows.push([
+                entry.name,
+                entry.state,
+                formatTime(entry.time),
+                String(entry.sliceCount),
+                formatTime(entry.stats.mean),
+                formatTime(entry.stats.min),
+                formatTime(entry.stats.max)
+            ]);
+        }
+
+        const widths = rows[0].map((_, column) =>
+            Math.max(...rows.map((row) => row[column].length))
+        );
+        const formatRow = (row: string[]): string =>
+            row
+                .map((cell, column) =>
+                    // Left-align the name and state, right-align numbers
+                    column < 2
+                        ? padEnd(cell, widths[column], " ")
+                        : padStart(cell, widths[column], " ")
+                )
+                .join("  ")
+                .replace(/\s+$/, "");
+
+        return [
+            formatRow(rows[0]),
+            widths.map((width) => padEnd("", width, "-")).join("  "),
+            ...rows.slice(1).map(formatRow)
+        ].join("\n");
+    }
+}
+
+export namespace StopwatchRegistry {
+    /**
+     * A summary of a single stopwatch in a {@link StopwatchRegistry} report.
+     * See {@link StopwatchRegistry#getReport}.
+     */
+    export interface ReportEntry {
+        /**
+         * The name of the stopwatch.
+         */
+        readonly name: string;
+        /**
+         * The current state of the stopwatch.
+         */
+        readonly state: Stopwatch.State;
+        /**
+         * The current stopwatch time.
+         */
+        readonly time: number;
+        /**
+         * The number of completed slices.
+         */
+        readonly sliceCount: number;
+        /**
+         * Statistics of the durations of the completed slices.
+         */
+        readonly stats: Stopwatch.SliceStats;
+    }
+
+    /**
+     * Options for {@link StopwatchRegistry#formatReport}.
+     */
+    export interface ReportFormatOptions extends DurationFormatOptions {
+        /**
+         * The pattern used to format durations. See {@link formatDuration}.
+         */
+        pattern?: string;
+    }
+}
@@ -0,0 +1,308 @@
+import { Stopwatch } from "./Stopwatch";
+import { defaultScheduleFunc } from "./scheduling";
+
+/**
+ * Counts down a fixed duration of time, using the same time model as {@link Stopwatch}.
+ *
+ * To begin counting down, create a new instance of Timer with the target duration
+ * and call its {@link Timer#start} method.
+ *
+ * Pause the timer via {@link Timer#stop}, then resume by calling {@link Timer#start}
+ * again. Time does not count down while the timer is stopped.
+ *
+ * Use {@link Timer#getRemainingTime} to get the amount of time that is left before
+ * the timer expires, and {@link Timer#getTime} to get the amount of time that has
+ * already counted down.
+ *
+ * Once the full duration has counted down, the timer becomes
+ * {@link Timer.State#EXPIRED} and the optional {@link Timer.Options#onExpire}
+ * callback is called (exactly once). Expiration is detected both by a callback that is
+ * scheduled via {@link Timer.Options#schedule}, and whenever the timer is queried.
+ *
+ * Use {@link Timer#reset} to reset the timer to its initial state.
+ * NOTE: {@link Timer#start} also supports an optional parameter to force
+ *       a reset before (re)starting.
+ */
+export class Timer {
+    /**
+     * Records the amount of time that has counted down.
+     */
+    private readonly stopwatch: Stopwatch;
+
+    /**
+     * Schedules the expiration check callback.
+     */
+    private readonly schedule: Stopwatch.ScheduleFunc;
+
+    /**
+     * Called when the timer expires.
+     */
+    private readonly onExpire: ((timer: Timer) => void) | undefined;
+
+    /**
+     * True if the timer has expired since the last reset.
+     */
+    private expired: boolean = false;
+
+    /**
+     * Cancels the currently scheduled expiration check callback.
+     * Undefined if there is no scheduled callback.
+     */
+    private cancelScheduledCheck: Stopwatch.CancelFunc | undefined;
+
+    /**
+     * Creates a new Timer instance.
+     *
+     * @param duration - The total amount of time to count down. Must be a finite,
+     *        non-negative number in the same unit as the `getSystemTime` option.
+     * @param options - Optional configuration.
+     * @throws Error if `duration` is not a finite, non-negative number.
+     */
+    public constructor(
+        private readonly duration: number,
+        options: Timer.Options = {}
+    ) {
+        if (!isFinite(duration) || duration < 0) {
+            throw new Error(`Invalid Timer duration: ${duration}`);
+        }
+
+        this.stopwatch = new Stopwatch(options.getSystemTime);
+        this.schedule = options.schedule || defaultScheduleFunc;
+        this.onExpire = options.onExpire;
+    }
+
+    /**
+     * Get the total amount of time that this timer counts down.
+     *
+     * @return the total amount of time that this timer counts down.
+     */
+    public getDuration(): number {
+        return this.duration;
+    }
+
+    /**
+     * Get the current state of this timer.
+     *
+     * @return the current state of this timer.
+     */
+    public getState(): Timer.State {
+        if (this.checkExpired()) {
+            return Timer.State.EXPIRED;
+        }
+
+        switch (this.stopwatch.getState()) {
+            case Stopwatch.State.RUNNING:
+                return Timer.State.RUNNING;
+            case Stopwatch.State.STOPPED:
+                return Timer.State.STOPPED;
+            default:
+                return Timer.State.IDLE;
+        }
+    }
+
+    /**
+     * Test if this timer is currently {@link Timer.State#IDLE}.
+     *
+     * @return true if this timer is currently {@link Timer.State#IDLE}.
+     */
+    public isIdle(): boolean {
+        return this.getState() === Timer.State.IDLE;
+    }
+
+    /**
+     * Test if this timer is currently {@link Timer.State#RUNNING}.
+     *
+     * @return true if this timer is currently {@link Timer.State#RUNNING}.
+     */
+    public isRunning(): boolean {
+        return this.getState() === Timer.State.RUNNING;
+    }
+
+    /**
+     * Test if this timer is currently {@link Timer.State#STOPPED}.
+     *
+     * @return true if this timer is currently {@link Timer.State#STOPPED}.
+     */
+    public isStopped(): boolean {
+        return this.getState() === Timer.State.STOPPED;
+    }
+
+    /**
+     * Test if this timer is currently {@link Timer.State#EXPIRED}.
+     *
+     * @return true if this timer is currently {@link Timer.State#EXPIRED}.
+     */
+    public isExpired(): boolean {
+        return this.getState() === Timer.State.EXPIRED;
+    }
+
+    /**
+     * Get the amount of time that has counted down since the last reset.
+     * Never exceeds {@link #getDuration}.
+     *
+     * @return the amount of time that has counted down since the last reset.
+     */
+    public getTime(): number {
+        return this.checkExpired()
+            ? this.duration
+            : Math.min(this.stopwatch.getTime(), this.duration);
+    }
+
+    /**
+     * Get the amount of time that is left before this timer expires.
+     * Returns zero if the state is {@link Timer.State#EXPIRED}.
+     *
+     * @return the amount of time that is left before this timer expires.
+     */
+    public getRemainingTime(): number {
+        return this.duration - this.getTime();
+    }
+
+    /**
+     * Starts (or resumes) counting down.
+     *
+     * Does nothing if the state is already {@link Timer.State#RUNNING} or
+     * {@link Timer.State#EXPIRED}, and `forceReset` is false.
+     *
+     * @param forceReset - If true, then the timer is {@link #reset} before starting.
+     */
+    public start(forceReset: boolean = false): void {
+        if (forceReset) {
+            this.reset();
+        }
+
+        if (this.checkExpired()) {
+            return;
+        }
+
+        this.stopwatch.start();
+
+        if (!this.checkExpired()) {
+            this.scheduleCheck();
+        }
+    }
+
+    /**
+     * Stops (pauses) counting down and returns the current {@link #getRemainingTime}
+     * result. Call {@link #start} to resume counting down.
+     *
+     * Does nothing if the state is currently {@link Timer.State#IDLE} or
+     * {@link Timer.State#EXPIRED}.
+     *
+     * @return the current {@link #getRemainingTime} result.
+     */
+    public stop(): number {
+        if (!this.checkExpired()) {
+            this.cancelCheck();
+            this.stopwatch.stop();
+        }
+
+        return this.getRemainingTime();
+    }
+
+    /**
+     * Completely resets this timer to its initial state.
+     * The state is guaranteed to be {@link Timer.State#IDLE} after
+     * calling this method.
+     */
+    public reset(): void {
+        this.cancelCheck();
+        this.expired = false;
+        this.stopwatch.reset();
+    }
+
+    /**
+     * Checks whether this timer has expired, and transitions it to the
+     * {@link Timer.State#EXPIRED} state if it has just expired.
+     * @return true if this timer has expired.
+     */
+    private checkExpired(): boolean {
+        if (
+            !this.expired &&
+            this.stopwatch.isRunning() &&
+            this.stopwatch.getTime() >= this.duration
+        ) {
+            this.expired = true;
+            this.cancelCheck();
+            this.stopwatch.stop();
+
+            if (this.onExpire) {
+                this.onExpire(this);
+            }
+        }
+
+        return this.expired;
+    }
+
+    /**
+     * Schedules a callback to check for expiration when the remaining time is
+     * expected to run out.
+     * If the scheduled callback runs early, then it is rescheduled.
+     */
+    private scheduleCheck(): void {
+        this.cancelCheck();
+
+        this.cancelScheduledCheck = this.schedule(() => {
+            this.cancelScheduledCheck = undefined;
+
+            if (!this.checkExpired() && this.stopwatch.isRunning()) {
+                this.scheduleCheck();
+            }
+        }, this.getRemainingTime());
+    }
+
+    /**
+     * Cancels the currently scheduled expiration check callback, if any.
+     */
+    private cancelCheck(): void {
+        if (this.cancelScheduledCheck) {
+            this.cancelScheduledCheck();
+            this.cancelScheduledCheck = undefined;
+        }
+    }
+}
+
+export namespace Timer {
+    /**
+     * Possible states of a {@link Timer}.
+     */
+    export enum State {
+        /**
+         * The timer has not yet been started, or has been reset.
+         */
+        IDLE = "IDLE",
+        /**
+         * The timer is currently counting down.
+         */
+        RUNNING = "RUNNING",
+        /**
+         * The timer was previously counting down, but has been stopped.
+         */
+        STOPPED = "STOPPED",
+        /**
+         * The timer has counted down its full duration.
+         */
+        EXPIRED = "EXPIRED"
+    }
+
+    /**
+     * Optional configuration of a {@link Timer}.
+     */
+    export interface Options {
+        /**
+         * A callback that returns the current system time.
+         * See the {@link Stopwatch} constructor for details.
+         */
+        getSystemTime?: Stopwatch.GetTimeFunc;
+        /**
+         * Schedules the callback that detects expiration.
+         * Defaults to an implementation based on `setTimeout`, which assumes that
+         * time is measured in milliseconds.
+         */
+        schedule?: Stopwatch.ScheduleFunc;
+        /**
+         * Called exactly once when the timer expires (until it is reset).
+         */
+        onExpire?: (timer: Timer) => void;
+    }
+}
@@ -0,0 +1,58 @@
+/**
+ * Minimal declarations of the standard `AbortController` API (see scheduling.ts).
+ */
+declare const AbortController: (new () => AbortControllerLike) | undefined;
+
+/**
+ * Minimal declarations of the standard `DOMException` API.
+ */
+declare const DOMException:
+    | (new (message: string, name: string) => Error)
+    | undefined;
+
+/**
+ * The subset of the `AbortController` API that is used by this library.
+ */
+export interface AbortControllerLike {
+    /**
+     * The signal that is aborted by {@link #abort}.
+     */
+    readonly signal: AbortSignal;
+    /**
+     * Aborts the signal.
+     * @param reason - The abort reason. Ignored by older implementations.
+     */
+    abort(reason?: unknown): void;
+}
+
+/**
+ * Creates a new `AbortController`.
+ * @return a new `AbortController`.
+ * @throws Error if `AbortController` is not available.
+ */
+export function createAbortController(): AbortControllerLike {
+    if (typeof AbortController !== "function") {
+        throw new Error("AbortController is not supported");
+    }
+
+    return new AbortController();
+}
+
+/**
+ * Creates an error that indicates that a deadline was reached, consistent with the
+ * abort reason of `AbortSignal.timeout()`: a `DOMException` named "TimeoutError", or
+ * an `Error` with that name if `DOMException` is not available.
+ * @param message - The error message.
+ * @return the error.
+ */
+export function createTimeoutError(message: string): Error {
+    if (typeof DOMException === "function") {
+        return new DOMException(message, "TimeoutError");
+    }
+
+    const error = new Error(message);
+
+    error.name = "TimeoutError";
+
+    return error;
+}
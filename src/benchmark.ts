@@ -0,0 +1,362 @@
+import { Stopwatch } from "./Stopwatch";
+import { isThenable } from "./util";
+
+/**
+ * Options for {@link benchmark}.
+ */
+export interface BenchmarkOptions {
+    /**
+     * The number of times to call the benchmarked function before measuring,
+     * to allow for JIT compilation, caching, etc. Must be a non-negative integer.
+     * Defaults to 10.
+     */
+    warmupIterations?: number;
+    /**
+     * If provided, the benchmarked function is measured exactly this many times
+     * (fixed-iteration mode). Otherwise, the benchmarked function is measured
+     * repeatedly until {@link BenchmarkOptions#time} has elapsed (fixed-time mode).
+     * Must be a non-negative integer.
+     */
+    iterations?: number;
+    /**
+     * The minimum amount of time to spend measuring in fixed-time mode.
+     * At least one iteration is always measured.
+     * Ignored if {@link BenchmarkOptions#iterations} is provided.
+     * Must be finite and non-negative.
+     * Defaults to 1000 (1 second, with the default "system time getter").
+     */
+    time?: number;
+    /**
+     * A callback that returns the current system time.
+     * See the {@link Stopwatch} constructor for details.
+     */
+    getSystemTime?: Stopwatch.GetTimeFunc;
+    /**
+     * The number of time units per second, for calculating operations per second.
+     * Must be positive. Defaults to 1000 (milliseconds).
+     */
+    unitsPerSecond?: number;
+    /**
+     * An optional label for each recorded per-iteration slice.
+     */
+    label?: string;
+}
+
+/**
+ * Results of a {@link benchmark}.
+ */
+export interface BenchmarkResult {
+    /**
+     * The number of measured iterations.
+     */
+    readonly iterations: number;
+    /**
+     * The total measured time of all iterations.
+     */
+    readonly totalTime: number;
+    /**
+     * The mean time per iteration.
+     */
+    readonly mean: number;
+    /**
+     * The number of iterations per second, based on the mean time per iteration.
+     * Zero if the mean time per iteration is zero.
+     */
+    readonly opsPerSecond: number;
+    /**
+     * The margin of error of the mean time per iteration, at 95% confidence.
+     */
+    readonly marginOfError: number;
+    /**
+     * The margin of error as a percentage of the mean.
+     */
+    readonly relativeMarginOfError: number;
+    /**
+     * Statistics of the per-iteration times.
+     */
+    readonly stats: Stopwatch.SliceStats;
+    /**
+     * The raw measured time of each iteration.
+     */
+    readonly samples: ReadonlyArray<number>;
+    /**
+     * The stopwatch that recorded each iteration as a slice.
+     */
+    readonly stopwatch: Stopwatch;
+}
+
+/**
+ * Benchmarks a Promise-returning function, waiting for each returned Promise to
+ * settle before starting the next iteration.
+ *
+ * @param fn - The function to benchmark.
+ * @param options - Optional options.
+ * @return a Promise of the results of the benchmark, which is rejected if any
+ *         call to `fn` throws or returns a rejected Promise.
+ * @throws Error if `options` are invalid (see {@link BenchmarkOptions}).
+ */
+export function benchmark(
+    fn: () => PromiseLike<unknown>,
+    options?: BenchmarkOptions
+): Promise<BenchmarkResult>;
+/**
+ * Benchmarks a function, by measuring the time of repeated calls.
+ *
+ * Each measured call is recorded as a slice of a {@link Stopwatch}, which
+ * is included in the result.
+ *
+ * NOTE: Functions that are typed to return a Promise are benchmarked asynchronously
+ *       (see other overload). A function that unexpectedly returns a Promise
+ *       (or any "thenable") at runtime is also benchmarked asynchronously,
+ *       and a Promise of the result is returned.
+ *
+ * @param fn - The function to benchmark.
+ * @param options - Optional options.
+ * @return the results of the benchmark.
+ * @throws if any call to `fn` throws.
+ * @throws Error if `options` are invalid (see {@link BenchmarkOptions}).
+ */
+export function benchmark(
+    fn: () => unknown,
+    options?: BenchmarkOptions
+): BenchmarkResult;
+export function benchmark(
+    fn: () => unknown,
+    options: BenchmarkOptions = {}
+): BenchmarkResult | Promise<BenchmarkResult> {
+    return new BenchmarkRun(fn, options).run();
+}
+
+/**
+ * Two-tailed critical values of Student's t-distribution at 95% confidence,
+ * indexed by degrees of freedom (minus one).
+ * Larger degrees of freedom use the normal distribution's critical value.
+ */
+const T_DISTRIBUTION_CRITICAL_VALUES: ReadonlyArray<number> = [
+    12.706,
+    4.303,
+    3.182,
+    2.776,
+    2.571,
+    2.447,
+    2.365,
+    2.306,
+    2.262,
+    2.228,
+    2.201,
+    2.179,
+    2.16,
+    2.145,
+    2.131,
+    2.12,
+    2.11,
+    2.101,
+    2.093,
+    2.086,
+    2.08,
+    2.074,
+    2.069,
+    2.064,
+    2.06,
+    2.056,
+    2.052,
+    2.048,
+    2.045,
+    2.042
+];
+
+/**
+ * The normal distribution's two-tailed critical value at 95% confidence.
+ */
+const NORMAL_CRITICAL_VALUE = 1.96;
+
+/**
+ * The state of a single run of {@link benchmark}.
+ */
+class BenchmarkRun {
+    /**
+     * Records each measured iteration as a slice.
+     */
+    private readonly stopwatch: Stopwatch;
+
+    /**
+     * The number of warmup iterations that have not yet been completed.
+     */
+    private remainingWarmupIterations: number;
+
+    /**
+     * The stopwatch time at the end of the most recently measured iteration.
+     */
+    private measuredTime: number = 0;
+
+    /**
+     * The number of measured iterations that have been completed.
+     */
+    private measuredIterations: number = 0;
+
+    /**
+     * @param fn - The function to benchmark.
+     * @param options - Benchmark options.
+     * @throws Error if `options` contains an invalid number of iterations, time, or
+     *         units per second.
+     */
+    public constructor(
+        private readonly fn: () => unknown,
+        private readonly options: BenchmarkOptions
+    ) {
+        const { warmupIterations, iterations, time, unitsPerSecond } = options;
+
+        if (
+            warmupIterations !== undefined &&
+            !(warmupIterations >= 0 && warmupIterations % 1 === 0)
+        ) {
+            throw new Error(`Invalid warmupIterations: ${warmupIterations}`);
+        }
+
+        if (
+            iterations !== undefined &&
+            !(iterations >= 0 && iterations % 1 === 0)
+        ) {
+            throw new Error(`Invalid iterations: ${iterations}`);
+        }
+
+        if (time !== undefined && !(isFinite(time) && time >= 0)) {
+            throw new Error(`Invalid time: ${time}`);
+        }
+
+        if (
+            unitsPerSecond !== undefined &&
+            !(isFinite(unitsPerSecond) && unitsPerSecond > 0)
+        ) {
+            throw new Error(`Invalid unitsPerSecond: ${unitsPerSecond}`);
+        }
+
+        this.stopwatch = new Stopwatch(options.getSystemTime);
+        this.remainingWarmupIterations =
+            options.warmupIterations === undefined
+                ? 10
+                : options.warmupIterations;
+    }
+
+    /**
+     * Runs the benchmark synchronously, until it either completes or the benchmarked
+     * function returns a "thenable".
+     * @return the result, or a Promise of the result if the benchmark must
+     *         continue asynchronously.
+     */
+    public run(): BenchmarkResult | Promise<BenchmarkResult> {
+        while (!this.isComplete()) {
+            const returnValue = this.beginIteration();
+
+            if (isThenable(returnValue)) {
+                return this.continueAsync(returnValue);
+            }
+
+            this.completeIteration();
+        }
+
+        return this.createResult();
+    }
+
+    /**
+     * Continues running the benchmark asynchronously.
+     * @param pending - The "thenable" returned by the current iteration.
+     * @return a Promise of the result.
+     */
+    private async continueAsync(
+        pending: PromiseLike<unknown>
+    ): Promise<BenchmarkResult> {
+        await pending;
+        this.completeIteration();
+
+        while (!this.isComplete()) {
+            await this.beginIteration();
+            this.completeIteration();
+        }
+
+        return this.createResult();
+    }
+
+    /**
+     * Begins an iteration by calling the benchmarked function.
+     * Starts the stopwatch if this is the first measured iteration.
+     * @return the return value of the benchmarked function.
+     */
+    private beginIteration(): unknown {
+        if (this.remainingWarmupIterations <= 0) {
+            this.stopwatch.start();
+        }
+
+        return this.fn();
+    }
+
+    /**
+     * Completes the current iteration. Records a slice if it is a measured iteration.
+     */
+    private completeIteration(): void {
+        if (this.remainingWarmupIterations > 0) {
+            --this.remainingWarmupIterations;
+        } else {
+            this.measuredTime = this.stopwatch.slice(
+                this.options.label
+            ).endTime;
+            ++this.measuredIterations;
+        }
+    }
+
+    /**
+     * Tests if the benchmark is complete.
+     * @return true if the benchmark is complete.
+     */
+    private isComplete(): boolean {
+        if (this.remainingWarmupIterations > 0) {
+            return false;
+        } else if (this.options.iterations !== undefined) {
+            return this.measuredIterations >= this.options.iterations;
+        } else {
+            const time =
+                this.options.time === undefined ? 1000 : this.options.time;
+
+            return this.measuredIterations > 0 && this.measuredTime >= time;
+        }
+    }
+
+    /**
+     * Creates the result of the completed benchmark.
+     * @return the result of the completed benchmark.
+     */
+    private createResult(): BenchmarkResult {
+        this.stopwatch.stop();
+
+        const stats = this.stopwatch.getSliceStats();
+        const count = stats.count;
+        const mean = count > 0 ? stats.mean : 0;
+        const criticalValue =
+            count > 1
+                ? T_DISTRIBUTION_CRITICAL_VALUES[count - 2] ||
+                  NORMAL_CRITICAL_VALUE
+                : 0;
+        // Standard error of the mean, using the sample standard deviation
+        const standardError =
+            count > 1
+                ? (stats.standardDeviation * Math.sqrt(count / (count - 1))) /
+                  Math.sqrt(count)
+                : 0;
+        const marginOfError = criticalValue * standardError;
+
+        return {
+            iterations: count,
+            totalTime: stats.total,
+            mean: mean,
+            opsPerSecond:
+                mean > 0 ? (this.options.unitsPerSecond || 1000) / mean : 0,
+            marginOfError: marginOfError,
+            relativeMarginOfError: mean > 0 ? (marginOfError / mean) * 100 : 0,
+            stats: stats,
+            samples: this.stopwatch
+                .getCompletedSlices()
+                .map((slice) => slice.duration),
+            stopwatch: this.stopwatch
+        };
+    }
+}
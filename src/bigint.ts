@@ -0,0 +1,4 @@
+// A separate entry point ("ts-stopwatch/bigint") for the BigInt API, which requires
+// BigInt support at run time and TypeScript 3.2+ for its type definitions.
+export * from "./BigIntStopwatch";
+export * from "./bigintClocks";
@@ -0,0 +1,31 @@
+import { isHrtimeSupported } from "./clocks";
+
+/**
+ * Minimal declarations of Node's `process.hrtime.bigint` API.
+ */
+declare const process: { hrtime: { bigint(): bigint } };
+
+/**
+ * A function that returns "the current time" of some system as a BigInt.
+ * The only requirement is that each call to this function must return a value
+ * that is greater than or equal to the previous call to the function.
+ */
+export type GetBigIntTimeFunc = () => bigint;
+
+/**
+ * Creates a BigInt "system time getter" based on Node's `process.hrtime.bigint()`.
+ * The resulting time is a monotonic number of nanoseconds, as a BigInt.
+ * See {@link BigIntStopwatch}.
+ *
+ * @return a BigInt "system time getter" based on `process.hrtime.bigint()`.
+ * @throws Error if `process.hrtime.bigint()` is not available.
+ */
+export function createHrtimeBigIntTimeGetter(): GetBigIntTimeFunc {
+    if (!isHrtimeSupported()) {
+        throw new Error("process.hrtime.bigint() is not supported");
+    }
+
+    const hrtime = process.hrtime;
+
+    return () => hrtime.bigint();
+}
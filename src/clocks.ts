@@ -0,0 +1,109 @@
+import { Stopwatch } from "./Stopwatch";
+
+/**
+ * Minimal declarations of the High Resolution Time API (see scheduling.ts).
+ */
+declare const performance: { now(): number } | undefined;
+
+/**
+ * Minimal declarations of Node's `process.hrtime` API.
+ */
+declare const process:
+    | {
+          hrtime?: {
+              (): [number, number];
+              bigint?: () => bigint;
+          };
+      }
+    | undefined;
+
+/**
+ * Tests if `performance.now()` is available in the current runtime environment.
+ * @return true if `performance.now()` is available.
+ */
+export function isPerformanceNowSupported(): boolean {
+    return (
+        typeof performance !== "undefined" &&
+        !!performance &&
+        typeof performance.now === "function"
+    );
+}
+
+/**
+ * Tests if Node's `process.hrtime.bigint()` is available in the current runtime environment.
+ * @return true if `process.hrtime.bigint()` is available.
+ */
+export function isHrtimeSupported(): boolean {
+    return (
+        typeof process !== "undefined" &&
+        !!process &&
+        !!process.hrtime &&
+        typeof process.hrtime.bigint === "function"
+    );
+}
+
+/**
+ * Creates a "system time getter" based on `performance.now()`.
+ * The resulting time is a monotonic, high resolution number of milliseconds
+ * (with a fractional part).
+ *
+ * @return a "system time getter" based on `performance.now()`.
+ * @throws Error if `performance.now()` is not available.
+ */
+export function createPerformanceNowTimeGetter(): Stopwatch.GetTimeFunc {
+    if (!isPerformanceNowSupported()) {
+        throw new Error("performance.now() is not supported");
+    }
+
+    const perf = performance!;
+
+    return () => perf.now();
+}
+
+/**
+ * Creates a "system time getter" based on Node's `process.hrtime.bigint()`.
+ * The resulting time is a monotonic, high resolution number of milliseconds
+ * (with a fractional part) since the getter was created. Measuring relative to the
+ * creation of the getter avoids loss of precision when converting to a number.
+ *
+ * @return a "system time getter" based on `process.hrtime.bigint()`.
+ * @throws Error if `process.hrtime.bigint()` is not available.
+ */
+export function createHrtimeTimeGetter(): Stopwatch.GetTimeFunc {
+    if (!isHrtimeSupported()) {
+        throw new Error("process.hrtime.bigint() is not supported");
+    }
+
+    const hrtime = process!.hrtime!;
+    const origin = hrtime.bigint!();
+
+    return () => Number(hrtime.bigint!() - origin) / 1e6;
+}
+
+/**
+ * Gets the best available "system time getter" for the current runtime environment.
+ * In order of preference:
+ * - `performance.now()`
+ * - `process.hrtime.bigint()` (converted to milliseconds)
+ * - {@link Date.now}
+ *
+ * All of these measure time in milliseconds, but only {@link Date.now} is affected
+ * by adjustments to the computer's time.
+ *
+ * Use with {@link Stopwatch.setDefaultSystemTimeGetter} to automatically use the best
+ * available source of time for all future instances of {@link Stopwatch}:
+ * ```ts
+ * Stopwatch.setDefaultSystemTimeGetter(getBestSystemTimeGetter());
+ * ```
+ *
+ * @return the best available "system time getter".
+ */
+export function getBestSystemTimeGetter(): Stopwatch.GetTimeFunc {
+    if (isPerformanceNowSupported()) {
+        return createPerformanceNowTimeGetter();
+    } else if (isHrtimeSupported()) {
+        return createHrtimeTimeGetter();
+    } else {
+        return Date.now;
+    }
+}
@@ -0,0 +1,178 @@
+import { DurationFormatOptions, formatDuration } from "./format";
+import { Stopwatch } from "./Stopwatch";
+
+/**
+ * A column of the table produced by {@link exportSlices}:
+ * - "index": The 1-based position of the slice in the table.
+ * - "label": The label of the slice (empty if none).
+ * - "startTime": The stopwatch time at the start of the slice.
+ * - "endTime": The stopwatch time at the end of the slice.
+ * - "duration": The duration of the slice.
+ * - "formattedDuration": The duration of the slice, formatted with {@link formatDuration}.
+ */
+export type ExportColumn =
+    | "index"
+    | "label"
+    | "startTime"
+    | "endTime"
+    | "duration"
+    | "formattedDuration";
+
+/**
+ * Options for {@link exportSlices}.
+ */
+export interface ExportSlicesOptions extends DurationFormatOptions {
+    /**
+     * The output format.
+     * Defaults to "csv".
+     */
+    format?: "csv" | "tsv";
+    /**
+     * The columns to include, in order.
+     * Defaults to all columns (see {@link ExportColumn}).
+     */
+    columns?: ReadonlyArray<ExportColumn>;
+    /**
+     * If true, then the current pending slice is included after the completed slices.
+     * Defaults to false.
+     */
+    includePending?: boolean;
+    /**
+     * If true, then a header row with the column names is included.
+     * Defaults to true.
+     */
+    header?: boolean;
+    /**
+     * If true, then a summary footer with the stopwatch's total time and state is
+     * included, separated from the slices by an empty row.
+     * Defaults to true.
+     */
+    summary?: boolean;
+    /**
+     * The pattern used to format the "formattedDuration" column and the total time in
+     * the summary. See {@link formatDuration}.
+     */
+    pattern?: string;
+    /**
+     * The line separator.
+     * Defaults to "\n".
+     */
+    lineSeparator?: string;
+}
+
+/**
+ * All columns, in default order.
+ */
+const DEFAULT_COLUMNS: ReadonlyArray<ExportColumn> = [
+    "index",
+    "label",
+    "startTime",
+    "endTime",
+    "duration",
+    "formattedDuration"
+];
+
+/**
+ * Exports the completed (and optionally pending) slices of a {@link Stopwatch} as a
+ * CSV or TSV table, for use in spreadsheets.
+ *
+ * Fields that contain the delimiter, a double quote, or a line break are enclosed in
+ * double quotes, with embedded double quotes doubled.
+ *
+ * @param stopwatch - The stopwatch to export.
+ * @param options - Optional options.
+ * @return the exported table.
+ */
+export function exportSlices<M>(
+    stopwatch: Stopwatch<M>,
+    options: ExportSlicesOptions = {}
+): string {
+    const delimiter = options.format === "tsv" ? "\t" : ",";
+    const columns = options.columns || DEFAULT_COLUMNS;
+    const slices = stopwatch.getCompletedSlices();
+    const rows: string[][] = [];
+    let time: number;
+
+    if (options.includePending) {
+        const pendingSlice = stopwatch.getPendingSlice();
+
+        slices.push(pendingSlice);
+        // Consistent with the pending slice, without reading the time again
+        time = stopwatch.isIdle() ? stopwatch.getTime() : pendingSlice.endTime;
+    } else {
+        time = stopwatch.getTime();
+    }
+
+    if (options.header !== false) {
+        rows.push(Array.from(columns));
+    }
+
+    slices.forEach((slice, index) => {
+        rows.push(
+            columns.map((column) => formatField(column, slice, index, options))
+        );
+    });
+
+    if (options.summary !== false) {
+        rows.push(
+            [],
+            [
+                "Total time",
+                String(time),
+                formatDuration(time, options.pattern, options)
+            ],
+            ["State", stopwatch.getState()]
+        );
+    }
+
+    return rows
+        .map((row) =>
+            row.map((field) => escapeField(field, delimiter)).join(delimiter)
+        )
+        .join(
+            options.lineSeparator === undefined ? "\n" : options.lineSeparator
+        );
+}
+
+/**
+ * Formats the value of a column of a slice.
+ * @param column - The column.
+ * @param slice - The slice.
+ * @param index - The 0-based index of the slice.
+ * @param options - Export options.
+ * @return the formatted value.
+ */
+function formatField(
+    column: ExportColumn,
+    slice: Stopwatch.Slice<unknown>,
+    index: number,
+    options: ExportSlicesOptions
+): string {
+    switch (column) {
+        case "index":
+            return String(index + 1);
+        case "label":
+            return slice.label === undefined ? "" : slice.label;
+        case "startTime":
+            return String(slice.startTime);
+        case "endTime":
+            return String(slice.endTime);
+        case "duration":
+            return String(slice.duration);
+        case "formattedDuration":
+            return formatDuration(slice.duration, options.pattern, options);
+    }
+}
+
+/**
+ * Escapes a field for a delimited table, by enclosing it in double quotes if
+ * necessary.
+ * @param field - The field.
+ * @param delimiter - The delimiter of the table.
+ * @return the escaped field.
+ */
+function escapeField(field: string, delimiter: string): string {
+    return field.indexOf(delimiter) !== -1 || /["\r\n]/.test(field)
+        ? `"${field.replace(/"/g, '""')}"`
+        : field;
+}
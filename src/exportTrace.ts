@@ -0,0 +1,261 @@
+import { Stopwatch } from "./Stopwatch";
+
+/**
+ * A stopwatch to include in a trace exported by {@link exportTrace}, with details of
+ * how it appears in the trace.
+ */
+export interface TraceSource<M = unknown> {
+    /**
+     * The stopwatch.
+     */
+    stopwatch: Stopwatch<M>;
+    /**
+     * The name of the stopwatch's track (thread) in the trace.
+     * Defaults to the stopwatch's name (see {@link Stopwatch#getName}), if any.
+     */
+    name?: string;
+    /**
+     * The process ID of the stopwatch's events.
+     * Defaults to {@link ExportTraceOptions#pid}.
+     */
+    pid?: number;
+    /**
+     * The thread ID of the stopwatch's events.
+     * Defaults to the 1-based position of the stopwatch in the list of sources.
+     */
+    tid?: number;
+}
+
+/**
+ * Options for {@link exportTrace}.
+ */
+export interface ExportTraceOptions {
+    /**
+     * The number of units of system time per second, for converting to microseconds.
+     * Defaults to 1000 (milliseconds).
+     */
+    unitsPerSecond?: number;
+    /**
+     * A system time that is subtracted from all times, so that the trace starts
+     * near zero. Defaults to zero (raw system times), which aligns the trace with other
+     * traces that use the same source of time.
+     */
+    timeOrigin?: number;
+    /**
+     * The default process ID of all events.
+     * Defaults to 1.
+     */
+    pid?: number;
+    /**
+     * The category of slice events.
+     * Defaults to "stopwatch".
+     */
+    category?: string;
+    /**
+     * If true, then pause periods (while a stopwatch was stopped) are included as
+     * events named "Paused", in the category "&lt;category&gt;.pause".
+     * Defaults to true.
+     */
+    includePauses?: boolean;
+    /**
+     * If true, then each stopwatch's current pending slice is included.
+     * Defaults to false.
+     */
+    includePending?: boolean;
+}
+
+/**
+ * A single event of the Trace Event Format.
+ * See https://docs.google.com/document/d/1CvAClvFfyA5R-PhYUmn5OOQtYMH4h6I0nSsKchNAySU
+ */
+export interface TraceEvent {
+    /**
+     * The name of the event.
+     */
+    readonly name: string;
+    /**
+     * The category of the event.
+     */
+    readonly cat?: string;
+    /**
+     * The phase (type) of the event: "X" for complete events, "M" for metadata events.
+     */
+    readonly ph: "X" | "M";
+    /**
+     * The start time of the event, in microseconds.
+     */
+    readonly ts: number;
+    /**
+     * The duration of the event, in microseconds.
+     */
+    readonly dur?: number;
+    /**
+     * The process ID.
+     */
+    readonly pid: number;
+    /**
+     * The thread ID.
+     */
+    readonly tid: number;
+    /**
+     * Arbitrary details of the event.
+     */
+    readonly args?: { readonly [key: string]: unknown };
+}
+
+/**
+ * A trace in the JSON Object Format of the Trace Event Format.
+ */
+export interface TraceDocument {
+    /**
+     * All events of the trace.
+     */
+    readonly traceEvents: TraceEvent[];
+}
+
+/**
+ * Exports the slices of one or more stopwatches in the Trace Event Format, for
+ * visualizing in `chrome://tracing` or Perfetto. Serialize the result with
+ * `JSON.stringify()` to produce a trace file.
+ *
+ * Each stopwatch is a separate track (thread). Each slice is a complete ("X") event,
+ * named after its label (or "Slice &lt;number&gt;" if unlabeled), with its number,
+ * stopwatch times, and metadata as args. Events are placed on the timeline by system
+ * time, so a slice that spans a pause also spans the pause's event.
+ *
+ * @param sources - The stopwatches to export. See {@link TraceSource}.
+ * @param options - Optional options.
+ * @return a trace, ready to be serialized with `JSON.stringify()`.
+ */
+export function exportTrace(
+    sources: ReadonlyArray<Stopwatch | TraceSource>,
+    options: ExportTraceOptions = {}
+): TraceDocument {
+    const scale = 1e6 / (options.unitsPerSecond || 1000);
+    const timeOrigin = options.timeOrigin || 0;
+    const category = options.category || "stopwatch";
+    const toMicroseconds = (systemTime: number): number =>
+        (systemTime - timeOrigin) * scale;
+    const traceEvents: TraceEvent[] = [];
+
+    sources.forEach((item, index) => {
+        const source: TraceSource =
+            item instanceof Stopwatch ? { stopwatch: item } : item;
+        const stopwatch = source.stopwatch;
+        const pid = source.pid === undefined ? options.pid || 1 : source.pid;
+        const tid = source.tid === undefined ? index + 1 : source.tid;
+        const name =
+            source.name === undefined ? stopwatch.getName() : source.name;
+
+        if (name !== undefined) {
+            traceEvents.push({
+                name: "thread_name",
+                ph: "M",
+                ts: 0,
+                pid: pid,
+                tid: tid,
+                args: { name: name }
+            });
+        }
+
+        const runIntervals = stopwatch.getRunIntervals();
+        const slices = options.includePending
+            ? stopwatch.getCompletedAndPendingSlices()
+            : stopwatch.getCompletedSlices();
+        const firstNumber =
+            stopwatch.getSliceTotals().count -
+            stopwatch.getCompletedSlices().length +
+            1;
+
+        if (runIntervals.length === 0) {
+            return;
+        }
+
+        slices.forEach((slice, sliceIndex) => {
+            const sliceNumber = firstNumber + sliceIndex;
+            const startSystemTime = toSystemTime(
+                runIntervals,
+                slice.startTime,
+                true
+            );
+            const endSystemTime = toSystemTime(
+                runIntervals,
+                slice.endTime,
+                false
+            );
+            const args: { [key: string]: unknown } = {
+                number: sliceNumber,
+                startTime: slice.startTime,
+                endTime: slice.endTime,
+                duration: slice.duration
+            };
+
+            if (slice.metadata !== undefined) {
+                args.metadata = slice.metadata;
+            }
+
+            traceEvents.push({
+                name:
+                    slice.label === undefined
+                        ? `Slice ${sliceNumber}`
+                        : slice.label,
+                cat: category,
+                ph: "X",
+                ts: toMicroseconds(startSystemTime),
+                dur: Math.max(0, endSystemTime - startSystemTime) * scale,
+                pid: pid,
+                tid: tid,
+                args: args
+            });
+        });
+
+        if (options.includePauses !== false) {
+            for (const interval of stopwatch.getStopIntervals()) {
+                traceEvents.push({
+                    name: "Paused",
+                    cat: `${category}.pause`,
+                    ph: "X",
+                    ts: toMicroseconds(interval.startSystemTime),
+                    dur: interval.duration * scale,
+                    pid: pid,
+                    tid: tid,
+                    args: { time: interval.startTime }
+                });
+            }
+        }
+    });
+
+    return { traceEvents: traceEvents };
+}
+
+/**
+ * Converts a stopwatch time to the system time at which the stopwatch had that time.
+ *
+ * A stopwatch time at which the stopwatch was stopped corresponds to the whole
+ * pause. `preferLater` selects whether the end of the pause (i.e., the time the
+ * stopwatch resumed) or the start of the pause is used.
+ *
+ * @param runIntervals - All run intervals of the stopwatch (see
+ *        {@link Stopwatch#getRunIntervals}). Must not be empty.
+ * @param time - A stopwatch time.
+ * @param preferLater - If true, prefer the later of multiple equivalent system times.
+ * @return the system time at which the stopwatch had the specified time.
+ */
+function toSystemTime(
+    runIntervals: ReadonlyArray<Stopwatch.Interval>,
+    time: number,
+    preferLater: boolean
+): number {
+    for (const interval of runIntervals) {
+        if (preferLater ? time < interval.endTime : time <= interval.endTime) {
+            return (
+                interval.startSystemTime +
+                Math.max(0, time - interval.startTime)
+            );
+        }
+    }
+
+    const last = runIntervals[runIntervals.length - 1];
+
+    return last.endSystemTime + (time - last.endTime);
+}
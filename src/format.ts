@@ -0,0 +1,339 @@
+import { padStart } from "./util";
+
+/**
+ * How to round a duration to the precision of a format.
+ * - "round": Round to the nearest value (halves are rounded up).
+ * - "floor": Round down (toward zero), a.k.a. truncation. This is how most physical
+ *   stopwatches display time.
+ * - "ceil": Round up (away from zero). Useful for countdowns.
+ */
+export type DurationRounding = "round" | "floor" | "ceil";
+
+/**
+ * Options common to all duration formatting functions.
+ */
+export interface DurationFormatOptions {
+    /**
+     * How to round the duration to the precision of the format.
+     * Defaults to "floor".
+     */
+    rounding?: DurationRounding;
+    /**
+     * The number of duration units per second.
+     * Defaults to 1000 (durations are in milliseconds), which matches the default
+     * "system time getter" of {@link Stopwatch}.
+     */
+    unitsPerSecond?: number;
+    /**
+     * How to handle negative durations.
+     * - "sign": Format the absolute value with a leading "-".
+     * - "clamp": Format negative durations as zero.
+     * Defaults to "sign".
+     */
+    negative?: "sign" | "clamp";
+}
+
+/**
+ * Options for duration formats that display fractional seconds with a configurable
+ * number of digits.
+ */
+export interface FractionalDurationFormatOptions extends DurationFormatOptions {
+    /**
+     * The maximum number of fractional second digits to display.
+     * Trailing zeros are omitted.
+     */
+    fractionDigits?: number;
+}
+
+/**
+ * The default pattern used by {@link formatDuration}.
+ */
+export const DEFAULT_DURATION_PATTERN = "hh:mm:ss.SSS";
+
+/**
+ * Formats a duration according to a pattern.
+ *
+ * Supported pattern tokens:
+ * - `h`/`hh`: hours (`hh` is zero-padded to 2 digits).
+ * - `m`/`mm`: minutes (`mm` is zero-padded to 2 digits).
+ * - `s`/`ss`: seconds (`ss` is zero-padded to 2 digits).
+ * - `S`, `SS`, `SSS`, etc.: fractional seconds, with one digit per `S` (max 9).
+ * - `[text]`: literal text.
+ * All other characters are output as-is.
+ *
+ * The largest unit in the pattern absorbs all larger units. For example, 75 minutes
+ * formatted as `m:ss` is "75:00".
+ * The duration is rounded to the precision of the smallest unit in the pattern.
+ *
+ * @param duration - The duration to format.
+ * @param pattern - The format pattern. Defaults to {@link DEFAULT_DURATION_PATTERN}.
+ * @param options - Optional formatting options.
+ * @return the formatted duration.
+ */
+export function formatDuration(
+    duration: number,
+    pattern: string = DEFAULT_DURATION_PATTERN,
+    options: DurationFormatOptions = {}
+): string {
+    const tokens = pattern.match(PATTERN_TOKEN_REGEXP) || [];
+    const fractionToken = tokens.filter((token) => token[0] === "S")[0];
+    const fractionDigits = fractionToken
+        ? Math.min(fractionToken.length, MAX_FRACTION_DIGITS)
+        : 0;
+    const units = UNITS.filter((unit) =>
+        tokens.some((token) => token[0] === unit.token)
+    );
+    // Without fractional seconds, round to the smallest unit in the pattern
+    const resolution =
+        !fractionToken && units.length > 0
+            ? units[units.length - 1].seconds
+            : 1;
+    const parts = splitDuration(
+        duration,
+        units,
+        fractionDigits,
+        resolution,
+        options
+    );
+
+    const formatted = pattern.replace(PATTERN_TOKEN_REGEXP, (token) => {
+        if (token[0] === "[") {
+            return token.slice(1, -1);
+        } else if (token[0] === "S") {
+            return padStart(String(parts.fraction), fractionDigits, "0").slice(
+                0,
+                token.length
+            );
+        } else {
+            return padStart(
+                String(parts.values[token[0]]),
+                Math.min(token.length, 2),
+                "0"
+            );
+        }
+    });
+
+    return parts.negative ? `-${formatted}` : formatted;
+}
+
+/**
+ * Formats a duration as an ISO 8601 duration, using hours, minutes, and seconds
+ * (e.g., "PT1M2.345S"). Zero-value components are omitted.
+ * A zero duration is formatted as "PT0S".
+ *
+ * @param duration - The duration to format.
+ * @param options - Optional formatting options. `fractionDigits` defaults to 3.
+ * @return the formatted duration.
+ */
+export function formatIsoDuration(
+    duration: number,
+    options: FractionalDurationFormatOptions = {}
+): string {
+    const parts = splitFractionalDuration(duration, 3, options);
+    let result = "";
+
+    if (parts.values.h) {
+        result += `${parts.values.h}H`;
+    }
+
+    if (parts.values.m) {
+        result += `${parts.values.m}M`;
+    }
+
+    if (parts.values.s || parts.fraction || !result) {
+        result += `${parts.values.s}${formatFraction(parts)}S`;
+    }
+
+    return `${parts.negative ? "-" : ""}PT${result}`;
+}
+
+/**
+ * Formats a duration in a compact human-readable form (e.g., "1h 2m 3.4s").
+ * Zero-value components are omitted.
+ * A zero duration is formatted as "0s".
+ *
+ * @param duration - The duration to format.
+ * @param options - Optional formatting options. `fractionDigits` defaults to 1.
+ * @return the formatted duration.
+ */
+export function formatHumanizedDuration(
+    duration: number,
+    options: FractionalDurationFormatOptions = {}
+): string {
+    const parts = splitFractionalDuration(duration, 1, options);
+    const result: string[] = [];
+
+    if (parts.values.h) {
+        result.push(`${parts.values.h}h`);
+    }
+
+    if (parts.values.m) {
+        result.push(`${parts.values.m}m`);
+    }
+
+    if (parts.values.s || parts.fraction || result.length === 0) {
+        result.push(`${parts.values.s}${formatFraction(parts)}s`);
+    }
+
+    return `${parts.negative ? "-" : ""}${result.join(" ")}`;
+}
+
+/**
+ * Matches all supported tokens of a {@link formatDuration} pattern.
+ */
+const PATTERN_TOKEN_REGEXP = /\[[^\]]*\]|h+|m+|s+|S+/g;
+
+/**
+ * The maximum number of supported fractional second digits.
+ */
+const MAX_FRACTION_DIGITS = 9;
+
+/**
+ * A unit of time that a duration can be split into.
+ */
+interface Unit {
+    /**
+     * The pattern token character for the unit.
+     */
+    readonly token: string;
+    /**
+     * The number of seconds in one of the unit.
+     */
+    readonly seconds: number;
+}
+
+/**
+ * All supported units, from largest to smallest.
+ */
+const UNITS: ReadonlyArray<Unit> = [
+    { token: "h", seconds: 3600 },
+    { token: "m", seconds: 60 },
+    { token: "s", seconds: 1 }
+];
+
+/**
+ * A duration split into separate values per unit.
+ */
+interface DurationParts {
+    /**
+     * True if the duration is negative (and was not rounded to zero).
+     */
+    readonly negative: boolean;
+    /**
+     * Values of the requested units, keyed by unit token.
+     */
+    readonly values: { [token: string]: number };
+    /**
+     * The fractional seconds, as an integer number of `fractionDigits` digits.
+     */
+    readonly fraction: number;
+    /**
+     * The number of digits of `fraction`.
+     */
+    readonly fractionDigits: number;
+}
+
+/**
+ * Splits a duration into hours, minutes, seconds, and fractional seconds, as
+ * needed by {@link formatIsoDuration} and {@link formatHumanizedDuration}.
+ * @param duration - The duration to split.
+ * @param defaultFractionDigits - The default number of fractional second digits.
+ * @param options - Formatting options.
+ * @return the split duration.
+ */
+function splitFractionalDuration(
+    duration: number,
+    defaultFractionDigits: number,
+    options: FractionalDurationFormatOptions
+): DurationParts {
+    const fractionDigits =
+        options.fractionDigits === undefined
+            ? defaultFractionDigits
+            : Math.max(
+                  0,
+                  Math.min(
+                      MAX_FRACTION_DIGITS,
+                      Math.floor(options.fractionDigits)
+                  )
+              );
+
+    return splitDuration(duration, UNITS, fractionDigits, 1, options);
+}
+
+/**
+ * Splits a duration into values of the specified units.
+ * The largest unit absorbs all larger units, and the duration is rounded to the
+ * precision of the smallest unit (or fraction digits).
+ * @param duration - The duration to split.
+ * @param units - The units to split into, from largest to smallest.
+ * @param fractionDigits - The number of fractional second digits.
+ * @param resolution - The number of seconds in the smallest unit.
+ *        Ignored if `fractionDigits` is non-zero.
+ * @param options - Formatting options.
+ * @return the split duration.
+ */
+function splitDuration(
+    duration: number,
+    units: ReadonlyArray<Unit>,
+    fractionDigits: number,
+    resolution: number,
+    options: DurationFormatOptions
+): DurationParts {
+    const unitsPerSecond = options.unitsPerSecond || 1000;
+    const stepsPerSecond = Math.pow(10, fractionDigits);
+    const secondsPerStep = fractionDigits > 0 ? 1 / stepsPerSecond : resolution;
+    const isNegative = duration < 0 && options.negative !== "clamp";
+    const absoluteDuration = isNegative ? -duration : Math.max(duration, 0);
+    // Limit precision to avoid floating point errors being amplified by rounding
+    const scaled = Number(
+        (absoluteDuration / unitsPerSecond / secondsPerStep).toPrecision(12)
+    );
+    const totalSteps = ROUNDING_FUNCS[options.rounding || "floor"](scaled);
+    let steps = totalSteps;
+    const values: { [token: string]: number } = {};
+
+    for (const unit of units) {
+        const stepsPerUnit = Math.round(unit.seconds / secondsPerStep);
+
+        if (stepsPerUnit >= 1) {
+            values[unit.token] = Math.floor(steps / stepsPerUnit);
+            steps -= values[unit.token] * stepsPerUnit;
+        } else {
+            values[unit.token] = 0;
+        }
+    }
+
+    return {
+        negative: isNegative && totalSteps > 0,
+        values: values,
+        fraction: fractionDigits > 0 ? steps : 0,
+        fractionDigits: fractionDigits
+    };
+}
+
+/**
+ * Rounding implementations, keyed by {@link DurationRounding}.
+ */
+const ROUNDING_FUNCS: { [R in DurationRounding]: (value: number) => number } = {
+    round: Math.round,
+    floor: Math.floor,
+    ceil: Math.ceil
+};
+
+/**
+ * Formats the fractional seconds of split duration as a decimal point followed by
+ * digits, with trailing zeros omitted.
+ * @param parts - The split duration.
+ * @return the formatted fractional seconds, or an empty string if the fraction is zero.
+ */
+function formatFraction(parts: DurationParts): string {
+    if (!parts.fraction) {
+        return "";
+    }
+
+    return `.${padStart(
+        String(parts.fraction),
+        parts.fractionDigits,
+        "0"
+    ).replace(/0+$/, "")}`;
+}
@@ -0,0 +1,38 @@
+import { Stopwatch } from "./Stopwatch";
+
+/**
+ * Minimal declarations of the standard timer functions, which are available in all
+ * common runtime environments, but are not part of the ES standard library.
+ * The package is compiled against the ES standard library only, so each module
+ * declares the runtime APIs that it uses like this.
+ */
+declare function setTimeout(callback: () => void, delay: number): unknown;
+declare function clearTimeout(handle: unknown): void;
+
+/**
+ * The longest delay supported by `setTimeout`. Longer delays overflow, and cause the
+ * callback to be called almost immediately.
+ */
+const MAX_TIMEOUT_DELAY = 2147483647;
+
+/**
+ * The default {@link Stopwatch.ScheduleFunc} implementation, based on `setTimeout`.
+ *
+ * Delays longer than `setTimeout` supports are shortened to the longest supported
+ * delay, so the callback may be called early. Callers must check whether the
+ * callback is actually due, and schedule it again if not.
+ *
+ * @param callback - The callback to call after the delay.
+ * @param delay - The amount of time (in milliseconds) to wait before calling the callback.
+ * @return a function that cancels the scheduled callback.
+ */
+export const defaultScheduleFunc: Stopwatch.ScheduleFunc = (
+    callback: () => void,
+    delay: number
+): Stopwatch.CancelFunc => {
+    const handle = setTimeout(callback, Math.min(delay, MAX_TIMEOUT_DELAY));
+
+    return () => {
+        clearTimeout(handle);
+    };
+};
@@ -0,0 +1,182 @@
+import { Stopwatch } from "./Stopwatch";
+
+/**
+ * The default percentiles included in {@link Stopwatch.SliceStats}.
+ */
+export const DEFAULT_PERCENTILES: ReadonlyArray<number> = [90, 95, 99];
+
+/**
+ * Incrementally accumulates statistics of a series of durations, so that the
+ * statistics remain cheap to obtain regardless of how many durations are added.
+ */
+export class DurationStatistics {
+    /**
+     * The number of durations.
+     */
+    private count: number = 0;
+
+    /**
+     * The sum of all durations.
+     */
+    private total: number = 0;
+
+    /**
+     * The running mean of all durations (Welford's algorithm).
+     */
+    private mean: number = 0;
+
+    /**
+     * The running sum of squared differences from the mean (Welford's algorithm).
+     */
+    private sumOfSquaredDifferences: number = 0;
+
+    /**
+     * All durations, sorted in ascending order.
+     */
+    private sorted: number[] = [];
+
+    /**
+     * Creates statistics of a series of durations all at once, sorting them only once
+     * rather than inserting each duration individually.
+     * @param durations - The durations. The array is not modified.
+     * @return statistics of the durations.
+     */
+    public static fromDurations(
+        durations: ReadonlyArray<number>
+    ): DurationStatistics {
+        const statistics = new DurationStatistics();
+
+        for (const duration of durations) {
+            statistics.accumulate(duration);
+        }
+
+        statistics.sorted = durations.slice().sort((a, b) => a - b);
+
+        return statistics;
+    }
+
+    /**
+     * Adds a duration.
+     * @param duration - The duration to add.
+     */
+    public add(duration: number): void {
+        this.accumulate(duration);
+        this.sorted.splice(this.findInsertionIndex(duration), 0, duration);
+    }
+
+    /**
+     * Removes a previously added duration.
+     * Does nothing if the duration was not added.
+     * @param duration - The duration to remove.
+     */
+    public remove(duration: number): void {
+        const index = this.findInsertionIndex(duration) - 1;
+
+        if (index < 0 || this.sorted[index] !== duration) {
+            return;
+        }
+
+        this.sorted.splice(index, 1);
+        this.count -= 1;
+        this.total -= duration;
+
+        if (this.count === 0) {
+            this.mean = this.sumOfSquaredDifferences = 0;
+            return;
+        }
+
+        // Reverse of Welford's algorithm
+        const delta = duration - this.mean;
+        this.mean -= delta / this.count;
+        this.sumOfSquaredDifferences = Math.max(
+            0,
+            this.sumOfSquaredDifferences - delta * (duration - this.mean)
+        );
+    }
+
+    /**
+     * Gets statistics of all added durations.
+     * @param percentiles - The percentiles to include.
+     * @return statistics of all added durations.
+     */
+    public getStats(
+        percentiles: ReadonlyArray<number> = DEFAULT_PERCENTILES
+    ): Stopwatch.SliceStats {
+        const result: { [percentile: number]: number } = {};
+
+        for (const percentile of percentiles) {
+            result[percentile] = this.calculatePercentile(percentile);
+        }
+
+        return {
+            count: this.count,
+            total: this.total,
+            min: this.count > 0 ? this.sorted[0] : NaN,
+            max: this.count > 0 ? this.sorted[this.count - 1] : NaN,
+            mean: this.count > 0 ? this.mean : NaN,
+            median: this.calculatePercentile(50),
+            standardDeviation:
+                this.count > 0
+                    ? Math.sqrt(this.sumOfSquaredDifferences / this.count)
+                    : NaN,
+            percentiles: result
+        };
+    }
+
+    /**
+     * Calculates a percentile of all added durations, using linear interpolation
+     * between the closest ranks.
+     * @param percentile - The percentile, from 0 to 100.
+     * @return the percentile, or NaN if there are no durations.
+     */
+    private calculatePercentile(percentile: number): number {
+        if (this.count === 0) {
+            return NaN;
+        }
+
+        const rank =
+            (Math.max(0, Math.min(100, percentile)) / 100) * (this.count - 1);
+        const lowerIndex = Math.floor(rank);
+        const upperIndex = Math.ceil(rank);
+        const lower = this.sorted[lowerIndex];
+
+        return lower + (this.sorted[upperIndex] - lower) * (rank - lowerIndex);
+    }
+
+    /**
+     * Accumulates the count, total, and running mean/variance of a duration, without
+     * adding it to the sorted durations.
+     * @param duration - A duration.
+     */
+    private accumulate(duration: number): void {
+        this.count += 1;
+        this.total += duration;
+
+        const delta = duration - this.mean;
+        this.mean += delta / this.count;
+        this.sumOfSquaredDifferences += delta * (duration - this.mean);
+    }
+
+    /**
+     * Finds the index at which a duration should be inserted to keep the
+     * durations sorted.
+     * @param duration - A duration.
+     * @return the index at which to insert the duration.
+     */
+    private findInsertionIndex(duration: number): number {
+        let low = 0;
+        let high = this.sorted.length;
+
+        while (low < high) {
+            const middle = Math.floor((low + high) / 2);
+
+            if (this.sorted[middle] <= duration) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+
+        return low;
+    }
+}
@@ -0,0 +1,326 @@
+import { Stopwatch } from "./Stopwatch";
+import { isThenable } from "./util";
+
+/**
+ * Creates a method decorator that measures the duration of every invocation of the
+ * decorated method, and records each invocation as a labeled slice on a
+ * {@link Stopwatch}.
+ *
+ * Promise-returning methods are measured until the returned Promise settles.
+ *
+ * By default, all decorated methods of a class share a per-class stopwatch
+ * (see {@link timed.getStopwatch}). Alternatively, a stopwatch may be supplied via
+ * {@link timed.Options#stopwatch}.
+ *
+ * The stopwatch is started when an invocation begins, and stopped again once no
+ * decorated methods are running (unless the stopwatch was already running), so that
+ * it only accumulates the time spent within decorated methods.
+ *
+ * NOTE: If a supplied stopwatch is already running, then the first invocation's slice
+ *       also covers the time that was pending before the invocation began, unless
+ *       {@link timed.Options#slicePendingTime} is enabled.
+ *
+ * NOTE: If invocations overlap (e.g., concurrent async methods, or recursion), then
+ *       each recorded slice covers the time since the previous slice was recorded,
+ *       rather than exactly the duration of the invocation. The duration reported to
+ *       {@link timed.Options#reporter} is always exact.
+ *
+ * @param options - Optional configuration.
+ * @return a method decorator.
+ */
+export function timed(
+    options: timed.Options = {}
+): (
+    target: object,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor
+) => void {
+    return (
+        target: object,
+        propertyKey: string | symbol,
+        descriptor: PropertyDescriptor
+    ): void => {
+        const method = descriptor.value;
+
+        if (typeof method !== "function") {
+            throw new Error(
+                `@timed() can only decorate methods: ${String(propertyKey)}`
+            );
+        }
+
+        const label =
+            options.label === undefined ? String(propertyKey) : options.label;
+        const stopwatch =
+            options.stopwatch || getOrCreateClassStopwatch(target, options);
+
+        descriptor.value = function(
+            this: unknown,
+            ...args: unknown[]
+        ): unknown {
+            const invocation = beginInvocation(stopwatch, label, options);
+            let result: unknown;
+
+            try {
+                result = method.apply(this, args);
+            } catch (error) {
+                endInvocation(invocation, options, true, error);
+                throw error;
+            }
+
+            if (isThenable(result)) {
+                return result.then(
+                    (value) => {
+                        endInvocation(invocation, options);
+                        return value;
+                    },
+                    (error) => {
+                        endInvocation(invocation, options, true, error);
+                        throw error;
+                    }
+                );
+            }
+
+            endInvocation(invocation, options);
+
+            return result;
+        };
+    };
+}
+
+export namespace timed {
+    /**
+     * Optional configuration of a {@link timed} decorator.
+     */
+    export interface Options {
+        /**
+         * The label of recorded slices.
+         * Defaults to the name of the decorated method.
+         */
+        label?: string;
+        /**
+         * The stopwatch to record slices on.
+         * Defaults to a stopwatch that is shared by all decorated methods of the class.
+         */
+        stopwatch?: Stopwatch;
+        /**
+         * If true, then any time that the stopwatch has pending when an invocation
+         * begins while no other decorated methods are running is first recorded as an
+         * unlabeled slice, so that the invocation's slice only covers the invocation.
+         * This is only useful with a supplied stopwatch that may already be running.
+         * Defaults to false.
+         */
+        slicePendingTime?: boolean;
+        /**
+         * Called after every invocation of the decorated method.
+         */
+        reporter?: (report: Report) => void;
+        /**
+         * A callback that returns the current system time, used to create the
+         * per-class stopwatch. Ignored if a stopwatch is supplied, or if the per-class
+         * stopwatch was already created by another decorated method.
+         * See the {@link Stopwatch} constructor for details.
+         */
+        getSystemTime?: Stopwatch.GetTimeFunc;
+    }
+
+    /**
+     * Details of a single invocation of a method decorated with {@link timed}.
+     */
+    export interface Report {
+        /**
+         * The label of the recorded slice.
+         */
+        readonly label: string;
+        /**
+         * The exact duration of the invocation.
+         */
+        readonly duration: number;
+        /**
+         * The recorded slice.
+         */
+        readonly slice: Stopwatch.Slice;
+        /**
+         * True if the invocation threw (or the returned Promise was rejected).
+         */
+        readonly failed: boolean;
+        /**
+         * The value that was thrown (or that the returned Promise was rejected with),
+         * if `failed` is true.
+         */
+        readonly error?: unknown;
+    }
+
+    /**
+     * Gets the per-class stopwatch that is shared by all methods of a class that are
+     * decorated with {@link timed} (without a supplied stopwatch).
+     *
+     * If the class itself has no decorated methods, then the per-class stopwatch of
+     * its nearest base class with decorated methods is returned, because that is the
+     * stopwatch that the inherited methods record on.
+     *
+     * @param classOrInstance - A class, or an instance of the class.
+     * @return the per-class stopwatch, or undefined if no methods of the class or its
+     *         base classes are decorated with {@link timed}.
+     */
+    export function getStopwatch(
+        classOrInstance: object
+    ): Stopwatch | undefined {
+        let key: object | null = getClass(classOrInstance);
+
+        while (key) {
+            const stopwatch = classStopwatches.get(key);
+
+            if (stopwatch) {
+                return stopwatch;
+            }
+
+            key = Object.getPrototypeOf(key);
+        }
+
+        return undefined;
+    }
+}
+
+/**
+ * Per-class stopwatches, keyed by class.
+ */
+const classStopwatches = new WeakMap<object, Stopwatch>();
+
+/**
+ * State of decorated method invocations that are currently running, per stopwatch.
+ */
+const activeInvocations = new WeakMap<
+    Stopwatch,
+    {
+        /**
+         * The number of running invocations.
+         */
+        count: number;
+        /**
+         * True if the stopwatch was started by the first running invocation.
+         */
+        startedByInvocation: boolean;
+    }
+>();
+
+/**
+ * A single running invocation of a decorated method.
+ */
+interface Invocation {
+    /**
+     * The stopwatch that records the invocation.
+     */
+    readonly stopwatch: Stopwatch;
+    /**
+     * The label of the slice to record.
+     */
+    readonly label: string;
+    /**
+     * The stopwatch time at which the invocation began.
+     */
+    readonly startTime: number;
+}
+
+/**
+ * Gets the class of a decorator target.
+ * @param target - A class (for static methods), or a class prototype/instance.
+ * @return the class.
+ */
+function getClass(target: object): object {
+    return typeof target === "function" ? target : target.constructor;
+}
+
+/**
+ * Gets the per-class stopwatch for a decorator target, creating it if necessary.
+ * @param target - A class (for static methods), or a class prototype.
+ * @param options - Decorator options.
+ * @return the per-class stopwatch.
+ */
+function getOrCreateClassStopwatch(
+    target: object,
+    options: timed.Options
+): Stopwatch {
+    const key = getClass(target);
+    let stopwatch = classStopwatches.get(key);
+
+    if (!stopwatch) {
+        stopwatch = new Stopwatch(options.getSystemTime);
+        classStopwatches.set(key, stopwatch);
+    }
+
+    return stopwatch;
+}
+
+/**
+ * Begins measuring an invocation.
+ * @param stopwatch - The stopwatch that records the invocation.
+ * @param label - The label of the slice to record.
+ * @param options - Decorator options.
+ * @return the running invocation.
+ */
+function beginInvocation(
+    stopwatch: Stopwatch,
+    label: string,
+    options: timed.Options
+): Invocation {
+    const active = activeInvocations.get(stopwatch) || {
+        count: 0,
+        startedByInvocation: !stopwatch.isRunning()
+    };
+
+    ++active.count;
+    activeInvocations.set(stopwatch, active);
+    stopwatch.start();
+
+    // End any time that was already pending before the first running invocation, so
+    // that it is not included in the invocation's slice
+    if (
+        options.slicePendingTime &&
+        active.count === 1 &&
+        stopwatch.getPendingSlice().duration > 0
+    ) {
+        stopwatch.slice();
+    }
+
+    return {
+        stopwatch: stopwatch,
+        label: label,
+        startTime: stopwatch.getTime()
+    };
+}
+
+/**
+ * Ends measuring an invocation, records its slice, and reports it.
+ * @param invocation - The running invocation.
+ * @param options - Decorator options.
+ * @param failed - True if the invocation threw.
+ * @param error - The value thrown by the invocation, if any.
+ */
+function endInvocation(
+    invocation: Invocation,
+    options: timed.Options,
+    failed: boolean = false,
+    error?: unknown
+): void {
+    const stopwatch = invocation.stopwatch;
+    const slice = stopwatch.slice(invocation.label);
+    const active = activeInvocations.get(stopwatch);
+
+    if (active && --active.count === 0) {
+        activeInvocations.delete(stopwatch);
+
+        if (active.startedByInvocation) {
+            stopwatch.stop();
+        }
+    }
+
+    if (options.reporter) {
+        options.reporter({
+            label: invocation.label,
+            duration: slice.endTime - invocation.startTime,
+            slice: slice,
+            failed: failed,
+            error: error
+        });
+    }
+}
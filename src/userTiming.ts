@@ -0,0 +1,190 @@
+import { Stopwatch } from "./Stopwatch";
+
+/**
+ * The subset of the Performance API that is used by {@link enableUserTiming}.
+ */
+export interface UserTimingPerformance {
+    /**
+     * Creates a User Timing mark.
+     */
+    mark(name: string): unknown;
+    /**
+     * Creates a User Timing measure from a mark to the current time.
+     */
+    measure(name: string, startMark: string): unknown;
+}
+
+/**
+ * Minimal declarations of the User Timing API (see scheduling.ts).
+ */
+declare const performance: Partial<UserTimingPerformance> | undefined;
+
+/**
+ * The ID that is included in the mark names of the next {@link enableUserTiming} call.
+ */
+let nextMarkId = 1;
+
+/**
+ * Options for {@link enableUserTiming}.
+ */
+export interface UserTimingOptions {
+    /**
+     * The prefix of all mark names, which is followed by an ID that is unique to each
+     * {@link enableUserTiming} call.
+     * Defaults to "stopwatch:".
+     */
+    markPrefix?: string;
+    /**
+     * The prefix of all measure names.
+     * Defaults to "stopwatch:".
+     */
+    measurePrefix?: string;
+    /**
+     * The implementation of the Performance API to use.
+     * Defaults to the global `performance` object, if available.
+     */
+    performance?: UserTimingPerformance;
+}
+
+/**
+ * Tests if the User Timing API (`performance.mark()` and `performance.measure()`) is
+ * available in the current runtime environment.
+ * @return true if the User Timing API is available.
+ */
+export function isUserTimingSupported(): boolean {
+    return (
+        typeof performance !== "undefined" &&
+        !!performance &&
+        typeof performance.mark === "function" &&
+        typeof performance.measure === "function"
+    );
+}
+
+/**
+ * Makes a {@link Stopwatch} also create User Timing marks and measures, so that its
+ * activity shows up in browser/Node DevTools and to a `PerformanceObserver`.
+ *
+ * With the default prefixes, the stopwatch creates:
+ * - A "stopwatch:&lt;id&gt;:start" (or "stopwatch:&lt;id&gt;:resume") mark when it is
+ *   started (or resumed).
+ * - A "stopwatch:&lt;id&gt;:slice" mark, and a "stopwatch:&lt;label&gt;" measure (or
+ *   "stopwatch:slice" if unlabeled) that covers the slice, when a slice is recorded.
+ * - A "stopwatch:&lt;id&gt;:stop" mark, and a "stopwatch:run" measure that covers the
+ *   time since it was last started/resumed, when it is stopped.
+ *
+ * The &lt;id&gt; is unique to each call of this function, so that measures are not
+ * mixed up with the marks of other stopwatches.
+ *
+ * NOTE: Marks and measures are timed by the Performance API itself, not by the
+ *       stopwatch's "system time getter". Measures are based on real time, so a slice
+ *       that spans a pause also spans the pause.
+ *
+ * Only activity after calling this function is marked, so call it before starting the
+ * stopwatch.
+ *
+ * NOTE: Marks and measures are never cleared, so the Performance API's buffer grows with
+ *       every slice. In a long-running process, clear them periodically (see
+ *       `performance.clearMarks()` and `performance.clearMeasures()`).
+ *
+ * If the User Timing API is not available, then this does nothing. Errors thrown by the
+ * User Timing API (e.g., because marks were cleared) are ignored.
+ *
+ * @param stopwatch - The stopwatch.
+ * @param options - Optional options.
+ * @return a function that stops creating marks and measures for the stopwatch.
+ */
+export function enableUserTiming<M>(
+    stopwatch: Stopwatch<M>,
+    options: UserTimingOptions = {}
+): Stopwatch.CancelFunc {
+    const perf =
+        options.performance ||
+        (isUserTimingSupported()
+            ? (performance as UserTimingPerformance)
+            : undefined);
+
+    if (!perf) {
+        return () => undefined;
+    }
+
+    const markPrefix =
+        options.markPrefix === undefined ? "stopwatch:" : options.markPrefix;
+    const measurePrefix =
+        options.measurePrefix === undefined
+            ? "stopwatch:"
+            : options.measurePrefix;
+    const markId = nextMarkId++;
+    let runStartMark: string | undefined;
+    let sliceStartMark: string | undefined;
+
+    const mark = (name: string): string => {
+        const markName = `${markPrefix}${markId}:${name}`;
+
+        ignoreErrors(() => perf.mark(markName));
+
+        return markName;
+    };
+
+    const measure = (name: string, startMark: string | undefined): void => {
+        if (startMark !== undefined) {
+            ignoreErrors(() => perf.measure(measurePrefix + name, startMark));
+        }
+    };
+
+    const onStart = (): void => {
+        runStartMark = mark("start");
+        sliceStartMark = runStartMark;
+    };
+
+    const onResume = (): void => {
+        runStartMark = mark("resume");
+    };
+
+    const onSlice = (event: Stopwatch.SliceEvent<M>): void => {
+        const label = event.slice.label;
+
+        // Measure before marking, so that the slice mark of the previous slice is
+        // still the most recent mark with its name
+        measure(label === undefined ? "slice" : label, sliceStartMark);
+        sliceStartMark = mark("slice");
+    };
+
+    const onStop = (): void => {
+        measure("run", runStartMark);
+        mark("stop");
+        runStartMark = undefined;
+    };
+
+    const onReset = (): void => {
+        runStartMark = undefined;
+        sliceStartMark = undefined;
+    };
+
+    stopwatch
+        .on("start", onStart)
+        .on("resume", onResume)
+        .on("slice", onSlice)
+        .on("stop", onStop)
+        .on("reset", onReset);
+
+    return () => {
+        stopwatch
+            .off("start", onStart)
+            .off("resume", onResume)
+            .off("slice", onSlice)
+            .off("stop", onStop)
+            .off("reset", onReset);
+    };
+}
+
+/**
+ * Calls a function, ignoring any error that it throws.
+ * @param func - The function to call.
+ */
+function ignoreErrors(func: () => void): void {
+    try {
+        func();
+    } catch (error) {
+        // Ignored
+    }
+}
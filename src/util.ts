@@ -0,0 +1,48 @@
+/**
+ * Tests if a value is a "thenable" (e.g., a Promise).
+ * @param value - Any value.
+ * @return true if the value is a "thenable".
+ */
+export function isThenable(value: unknown): value is PromiseLike<unknown> {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        typeof (value as PromiseLike<unknown>).then === "function"
+    );
+}
+
+/**
+ * Pads the start of a string to a minimum length.
+ * (String.prototype.padStart is not available in ES6)
+ * @param value - The string to pad.
+ * @param length - The minimum length of the result.
+ * @param padding - The character to pad with.
+ * @return the padded string.
+ */
+export function padStart(
+    value: string,
+    length: number,
+    padding: string
+): string {
+    while (value.length < length) {
+        value = padding + value;
+    }
+
+    return value;
+}
+
+/**
+ * Pads the end of a string to a minimum length.
+ * (String.prototype.padEnd is not available in ES6)
+ * @param value - The string to pad.
+ * @param length - The minimum length of the result.
+ * @param padding - The character to pad with.
+ * @return the padded string.
+ */
+export function padEnd(value: string, length: number, padding: string): string {
+    while (value.length < length) {
+        value += padding;
+    }
+
+    return value;
+}
@@ -0,0 +1,102 @@
+import * as main from "../src";
+import { Stopwatch } from "../src";
+import { BigIntStopwatch } from "../src/bigint";
+
+describe("BigIntStopwatch", () => {
+    test("Not exported by the main entry point", () => {
+        expect(main).not.toHaveProperty("BigIntStopwatch");
+        expect(main).not.toHaveProperty("createHrtimeBigIntTimeGetter");
+    });
+
+    test("Uses process.hrtime.bigint by default", () => {
+        const stopwatch = new BigIntStopwatch();
+
+        stopwatch.start();
+
+        expect(typeof stopwatch.getTime()).toBe("bigint");
+        expect(stopwatch.getTime() >= BigInt(0)).toBe(true);
+    });
+
+    test("Basic usage", () => {
+        const getTime = jest.fn();
+        const stopwatch = new BigIntStopwatch(getTime);
+
+        expect(stopwatch.getState()).toBe(Stopwatch.State.IDLE);
+        expect(stopwatch.isIdle()).toBe(true);
+        expect(stopwatch.getTime()).toBe(BigInt(0));
+        expect(stopwatch.stop()).toBe(BigInt(0));
+        expect(getTime).toHaveBeenCalledTimes(0);
+
+        getTime.mockReturnValue(BigInt("9007199254740993000"));
+        stopwatch.start();
+        expect(stopwatch.isRunning()).toBe(true);
+
+        getTime.mockReturnValue(BigInt("9007199254740993001"));
+        expect(stopwatch.stop()).toBe(BigInt(1));
+        expect(stopwatch.isStopped()).toBe(true);
+
+        getTime.mockReturnValue(BigInt("9007199254740993100"));
+        stopwatch.start();
+        expect(stopwatch.getTime()).toBe(BigInt(1));
+
+        getTime.mockReturnValue(BigInt("9007199254740993102"));
+        expect(stopwatch.getTime()).toBe(BigInt(3));
+
+        stopwatch.reset();
+        expect(stopwatch.isIdle()).toBe(true);
+        expect(stopwatch.getTime()).toBe(BigInt(0));
+    });
+
+    test("Slices", () => {
+        const getTime = jest.fn();
+        const stopwatch = new BigIntStopwatch<number>(getTime);
+
+        expect(stopwatch.slice()).toEqual({
+            startTime: BigInt(0),
+            endTime: BigInt(0),
+            duration: BigInt(0)
+        });
+
+        getTime.mockReturnValue(BigInt(1000));
+        stopwatch.start(true);
+        getTime.mockReturnValue(BigInt(1001));
+        expect(stopwatch.slice("a", 1)).toEqual({
+            startTime: BigInt(0),
+            endTime: BigInt(1),
+            duration: BigInt(1),
+            label: "a",
+            metadata: 1
+        });
+
+        getTime.mockReturnValue(BigInt(1003));
+        stopwatch.stop(true);
+
+        getTime.mockReturnValue(BigInt(2000));
+        expect(stopwatch.getCompletedAndPendingSlices()).toEqual([
+            {
+                startTime: BigInt(0),
+                endTime: BigInt(1),
+                duration: BigInt(1),
+                label: "a",
+                metadata: 1
+            },
+            {
+                startTime: BigInt(1),
+                endTime: BigInt(3),
+                duration: BigInt(2)
+            },
+            {
+                startTime: BigInt(3),
+                endTime: BigInt(3),
+                duration: BigInt(0)
+            }
+        ]);
+
+        const completedSlices = stopwatch.getCompletedSlices();
+        completedSlices.pop();
+        expect(stopwatch.getCompletedSlices().length).toBe(2);
+        expect(() => {
+            (completedSlices[0] as any).duration = BigInt(5);
+        }).toThrow();
+    });
+});
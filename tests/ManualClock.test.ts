@@ -0,0 +1,115 @@
+import { ManualClock, Stopwatch, Timer } from "../src";
+
+describe("ManualClock", () => {
+    test("now(), advance() and set()", () => {
+        const clock = new ManualClock(1000);
+        const now = clock.now;
+
+        expect(now()).toBe(1000);
+
+        clock.advance(250);
+        expect(now()).toBe(1250);
+
+        clock.set(5000);
+        expect(now()).toBe(5000);
+
+        // Backward
+        clock.set(10);
+        expect(now()).toBe(10);
+
+        expect(new ManualClock().now()).toBe(0);
+    });
+
+    test("rejects invalid times", () => {
+        const clock = new ManualClock();
+
+        expect(() => clock.advance(-1)).toThrow();
+        expect(() => clock.advance(NaN)).toThrow();
+        expect(() => clock.set(Infinity)).toThrow();
+    });
+
+    test("scheduled callbacks fire in order at their due time", () => {
+        const clock = new ManualClock();
+        const schedule = clock.schedule;
+        const calls: string[] = [];
+
+        schedule(() => calls.push(`b@${clock.now()}`), 200);
+        schedule(() => calls.push(`a@${clock.now()}`), 100);
+        schedule(() => calls.push(`c@${clock.now()}`), 200);
+        schedule(() => calls.push(`zero@${clock.now()}`), 0);
+
+        expect(calls).toEqual([]);
+        expect(clock.getPendingCount()).toBe(4);
+
+        clock.advance(150);
+        expect(calls).toEqual(["zero@0", "a@100"]);
+        expect(clock.now()).toBe(150);
+
+        clock.advance(1000);
+        expect(calls).toEqual(["zero@0", "a@100", "b@200", "c@200"]);
+        expect(clock.now()).toBe(1150);
+        expect(clock.getPendingCount()).toBe(0);
+    });
+
+    test("callbacks scheduled by callbacks", () => {
+        const clock = new ManualClock();
+        const times: number[] = [];
+        const repeat = (): void => {
+            times.push(clock.now());
+            clock.schedule(repeat, 100);
+        };
+
+        clock.schedule(repeat, 100);
+        clock.advance(350);
+
+        expect(times).toEqual([100, 200, 300]);
+        expect(clock.getPendingCount()).toBe(1);
+    });
+
+    test("cancel", () => {
+        const clock = new ManualClock();
+        const callback = jest.fn();
+        const cancel = clock.schedule(callback, 100);
+
+        cancel();
+        cancel();
+        clock.advance(100);
+
+        expect(callback).not.toHaveBeenCalled();
+        expect(clock.getPendingCount()).toBe(0);
+    });
+
+    test("moving backward does not fire callbacks", () => {
+        const clock = new ManualClock(1000);
+        const callback = jest.fn();
+
+        clock.schedule(callback, 100);
+        clock.set(500);
+        expect(callback).not.toHaveBeenCalled();
+
+        clock.set(1100);
+        expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    test("drives Stopwatch and Timer", () => {
+        const clock = new ManualClock();
+        const stopwatch = new Stopwatch(clock.now);
+        const ticks: number[] = [];
+        const onExpire = jest.fn();
+        const timer = new Timer(1000, {
+            getSystemTime: clock.now,
+            schedule: clock.schedule,
+            onExpire: onExpire
+        });
+
+        stopwatch.onTick(250, (time) => ticks.push(time), clock.schedule);
+        stopwatch.start();
+        timer.start();
+        clock.advance(1000);
+
+        expect(ticks).toEqual([250, 500, 750, 1000]);
+        expect(stopwatch.getTime()).toBe(1000);
+        expect(onExpire).toHaveBeenCalledTimes(1);
+        expect(timer.isExpired()).toBe(true);
+    });
+});
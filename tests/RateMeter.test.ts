@@ -0,0 +1,219 @@
+import { ManualClock, RateMeter } from "../src";
+import { createManualStopwatch } from "./helpers";
+
+describe("RateMeter", () => {
+    test("rejects invalid options", () => {
+        expect(() => new RateMeter({ unitsPerSecond: 0 })).toThrowError(
+            "Invalid unitsPerSecond: 0"
+        );
+        expect(() => new RateMeter({ windows: [1, -10] })).toThrowError(
+            "Invalid moving average window: -10"
+        );
+        expect(() => new RateMeter({ windows: [NaN] })).toThrowError(
+            "Invalid moving average window: NaN"
+        );
+    });
+
+    test("rejects invalid amounts", () => {
+        const meter = new RateMeter({
+            stopwatch: createManualStopwatch().stopwatch
+        });
+
+        expect(() => meter.record(-1)).toThrowError("Invalid amount: -1");
+        expect(() => meter.record(Infinity)).toThrowError(
+            "Invalid amount: Infinity"
+        );
+        expect(meter.getTotal()).toBe(0);
+    });
+
+    test("overall rate", () => {
+        const { stopwatch, clock } = createManualStopwatch();
+        const meter = new RateMeter({ stopwatch: stopwatch });
+
+        meter.start();
+
+        expect(meter.getRate()).toBe(0);
+
+        meter.record();
+        meter.record(4);
+        clock.advance(500);
+        meter.record(5);
+
+        expect(meter.getTotal()).toBe(10);
+        expect(meter.getRate()).toBe(20);
+
+        clock.advance(500);
+        expect(meter.getRate()).toBe(10);
+    });
+
+    test("paused time does not count", () => {
+        const { stopwatch, clock } = createManualStopwatch();
+        const meter = new RateMeter({ stopwatch: stopwatch });
+
+        meter.start();
+
+        meter.record(10);
+        clock.advance(500);
+        expect(meter.stop()).toBe(500);
+        clock.advance(10000);
+        expect(meter.getRate()).toBe(20);
+        expect(meter.getMovingAverages()[0].rate).toBeCloseTo(
+            10 * Math.exp(-0.5),
+            10
+        );
+
+        meter.start();
+        clock.advance(500);
+        expect(meter.getRate()).toBe(10);
+        expect(meter.getMovingAverages()[0].rate).toBeCloseTo(
+            10 * Math.exp(-1),
+            10
+        );
+    });
+
+    test("rate since the last slice", () => {
+        const { stopwatch, clock } = createManualStopwatch();
+        const meter = new RateMeter({ stopwatch: stopwatch });
+
+        meter.start();
+
+        expect(meter.getSliceRate()).toBe(0);
+
+        meter.record(10);
+        clock.advance(1000);
+        expect(meter.getSliceRate()).toBe(10);
+
+        stopwatch.slice();
+        expect(meter.getSliceRate()).toBe(0);
+
+        clock.advance(250);
+        meter.record(5);
+        clock.advance(250);
+        expect(meter.getSliceRate()).toBe(10);
+        expect(meter.getRate()).toBe(10);
+
+        meter.record(15);
+        expect(meter.getSliceRate()).toBe(40);
+        expect(meter.getRate()).toBeCloseTo(20, 10);
+    });
+
+    test("moving averages", () => {
+        const { stopwatch, clock } = createManualStopwatch();
+        const meter = new RateMeter({ stopwatch: stopwatch });
+
+        meter.start();
+
+        expect(meter.getMovingAverages()).toEqual([
+            { window: 1, rate: 0 },
+            { window: 10, rate: 0 },
+            { window: 60, rate: 0 }
+        ]);
+
+        meter.record(60);
+
+        expect(meter.getMovingAverages()).toEqual([
+            { window: 1, rate: 60 },
+            { window: 10, rate: 6 },
+            { window: 60, rate: 1 }
+        ]);
+
+        clock.advance(1000);
+
+        const averages = meter.getMovingAverages();
+
+        expect(averages[0].rate).toBeCloseTo(60 * Math.exp(-1), 10);
+        expect(averages[1].rate).toBeCloseTo(6 * Math.exp(-0.1), 10);
+        expect(averages[2].rate).toBeCloseTo(Math.exp(-1 / 60), 10);
+        expect(Object.isFrozen(averages[0])).toBe(true);
+    });
+
+    test("moving averages converge on a steady rate", () => {
+        const { stopwatch, clock } = createManualStopwatch();
+        const meter = new RateMeter({ stopwatch: stopwatch, windows: [1, 5] });
+
+        meter.start();
+
+        // 100 events per second, for 30 seconds
+        for (let i = 0; i < 3000; ++i) {
+            clock.advance(10);
+            meter.record();
+        }
+
+        const [short, long] = meter.getMovingAverages();
+
+        expect(short.window).toBe(1);
+        expect(Math.abs(short.rate - 100)).toBeLessThan(1);
+        expect(long.window).toBe(5);
+        expect(Math.abs(long.rate - 100)).toBeLessThan(1);
+    });
+
+    test("unitsPerSecond", () => {
+        const clock = new ManualClock();
+        const meter = new RateMeter({
+            getSystemTime: clock.now,
+            unitsPerSecond: 1,
+            windows: [2]
+        });
+
+        meter.start();
+        meter.record(8);
+        expect(meter.getMovingAverages()).toEqual([{ window: 2, rate: 4 }]);
+        clock.advance(2);
+        expect(meter.getRate()).toBe(4);
+        expect(meter.getMovingAverages()[0].rate).toBeCloseTo(
+            4 * Math.exp(-1),
+            10
+        );
+    });
+
+    test("reset", () => {
+        const { stopwatch, clock } = createManualStopwatch();
+        const meter = new RateMeter({ stopwatch: stopwatch });
+
+        meter.start();
+
+        meter.record(10);
+        clock.advance(1000);
+        meter.reset();
+
+        expect(meter.getStopwatch().isIdle()).toBe(true);
+        expect(meter.getTotal()).toBe(0);
+        expect(meter.getRate()).toBe(0);
+        expect(meter.getMovingAverages()[0].rate).toBe(0);
+
+        // Recorded while idle
+        meter.record(10);
+        meter.reset();
+        expect(meter.getTotal()).toBe(0);
+
+        meter.record(10);
+        meter.start(true);
+        expect(meter.getTotal()).toBe(0);
+    });
+
+    test("shared stopwatch", () => {
+        const { stopwatch, clock } = createManualStopwatch();
+        const meter = new RateMeter({ stopwatch: stopwatch });
+
+        expect(meter.getStopwatch()).toBe(stopwatch);
+
+        stopwatch.start();
+        meter.record(10);
+        clock.advance(2000);
+        expect(meter.getRate()).toBe(5);
+
+        stopwatch.slice();
+        meter.record(1);
+        clock.advance(100);
+        expect(meter.getSliceRate()).toBe(10);
+
+        stopwatch.reset();
+        expect(meter.getTotal()).toBe(0);
+
+        stopwatch.start();
+        meter.record(5);
+        meter.dispose();
+        stopwatch.reset();
+        expect(meter.getTotal()).toBe(5);
+    });
+});
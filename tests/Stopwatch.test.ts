@@ -1,4 +1,5 @@
 import { Stopwatch } from "../src";
+import { createFakeSchedule, createManualStopwatch } from "./helpers";
 
 /**
  * Non-readonly version of a Stopwatch.Slice.
@@ -1157,4 +1158,2061 @@ describe("Stopwatch", () => {
             expect(getTime).toHaveBeenCalledTimes(2);
         });
     });
+
+    describe("Labeled slices", () => {
+        test("slice(label, metadata)", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch<{ id: number }>(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1100);
+            expect(stopwatch.slice("load", { id: 1 })).toEqual({
+                startTime: 0,
+                endTime: 100,
+                duration: 100,
+                label: "load",
+                metadata: { id: 1 }
+            });
+            getTime.mockReturnValue(1300);
+            stopwatch.slice("parse");
+            getTime.mockReturnValue(1350);
+            stopwatch.slice();
+            getTime.mockReturnValue(1400);
+            stopwatch.slice("load", { id: 2 });
+
+            expect(stopwatch.getSlicesByLabel("load")).toEqual([
+                {
+                    startTime: 0,
+                    endTime: 100,
+                    duration: 100,
+                    label: "load",
+                    metadata: { id: 1 }
+                },
+                {
+                    startTime: 350,
+                    endTime: 400,
+                    duration: 50,
+                    label: "load",
+                    metadata: { id: 2 }
+                }
+            ]);
+            expect(stopwatch.getSlicesByLabel("missing")).toEqual([]);
+            expect(stopwatch.getLabelTotals()).toEqual({
+                load: 150,
+                parse: 200
+            });
+
+            // Unlabeled slices have no label/metadata properties at all
+            expect(Object.keys(stopwatch.getCompletedSlices()[2])).toEqual([
+                "startTime",
+                "endTime",
+                "duration"
+            ]);
+        });
+
+        test("stop(true, label, metadata)", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch<string>(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1100);
+            stopwatch.stop(true, "total", "done");
+
+            expect(stopwatch.getCompletedSlices()).toEqual([
+                {
+                    startTime: 0,
+                    endTime: 100,
+                    duration: 100,
+                    label: "total",
+                    metadata: "done"
+                }
+            ]);
+        });
+
+        test("labeled slices are read-only", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1100);
+            const slice = stopwatch.slice("load");
+
+            expect(() => {
+                (slice as MutableSlice).label = "other";
+            }).toThrow();
+        });
+
+        test("reset clears labeled slices", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1100);
+            stopwatch.slice("load");
+            stopwatch.reset();
+
+            expect(stopwatch.getSlicesByLabel("load")).toEqual([]);
+            expect(stopwatch.getLabelTotals()).toEqual({});
+        });
+
+        test("labels and metadata survive toJSON / Stopwatch.fromJSON", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch<{ id: number }>(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1100);
+            stopwatch.slice("load", { id: 1 });
+
+            const restored = Stopwatch.fromJSON<{ id: number }>(
+                JSON.parse(JSON.stringify(stopwatch)),
+                getTime
+            );
+
+            expect(restored.getSlicesByLabel("load")).toEqual([
+                {
+                    startTime: 0,
+                    endTime: 100,
+                    duration: 100,
+                    label: "load",
+                    metadata: { id: 1 }
+                }
+            ]);
+        });
+    });
+
+    describe("Events", () => {
+        test("state transitions", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+            const listener = jest.fn();
+
+            stopwatch
+                .on("start", listener)
+                .on("resume", listener)
+                .on("stop", listener)
+                .on("reset", listener);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            expect(listener).toHaveBeenLastCalledWith({
+                type: "start",
+                previousState: Stopwatch.State.IDLE,
+                state: Stopwatch.State.RUNNING,
+                time: 0
+            });
+
+            getTime.mockReturnValue(1100);
+            stopwatch.stop();
+            expect(listener).toHaveBeenLastCalledWith({
+                type: "stop",
+                previousState: Stopwatch.State.RUNNING,
+                state: Stopwatch.State.STOPPED,
+                time: 100
+            });
+
+            getTime.mockReturnValue(1300);
+            stopwatch.start();
+            expect(listener).toHaveBeenLastCalledWith({
+                type: "resume",
+                previousState: Stopwatch.State.STOPPED,
+                state: Stopwatch.State.RUNNING,
+                time: 100
+            });
+
+            getTime.mockReturnValue(1400);
+            stopwatch.reset();
+            expect(listener).toHaveBeenLastCalledWith({
+                type: "reset",
+                previousState: Stopwatch.State.RUNNING,
+                state: Stopwatch.State.IDLE,
+                time: 0
+            });
+
+            expect(listener).toHaveBeenCalledTimes(4);
+        });
+
+        test("no events for non-transitions", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+            const listener = jest.fn();
+
+            stopwatch
+                .on("start", listener)
+                .on("resume", listener)
+                .on("stop", listener)
+                .on("reset", listener);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.stop();
+            stopwatch.reset();
+            expect(listener).toHaveBeenCalledTimes(0);
+
+            stopwatch.start();
+            stopwatch.start();
+            expect(listener).toHaveBeenCalledTimes(1);
+
+            stopwatch.stop();
+            stopwatch.stop();
+            expect(listener).toHaveBeenCalledTimes(2);
+        });
+
+        test("start(true) emits reset then start", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+            const types: string[] = [];
+
+            stopwatch
+                .on("start", (event) => types.push(event.type))
+                .on("reset", (event) => types.push(event.type));
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            stopwatch.start(true);
+
+            expect(types).toEqual(["start", "reset", "start"]);
+        });
+
+        test("slice events", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch<number>(getTime);
+            const listener = jest.fn();
+
+            stopwatch.on("slice", listener);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.slice();
+            expect(listener).toHaveBeenCalledTimes(0);
+
+            stopwatch.start();
+            getTime.mockReturnValue(1100);
+            const slice = stopwatch.slice("a", 1);
+            expect(listener).toHaveBeenLastCalledWith({
+                type: "slice",
+                previousState: Stopwatch.State.RUNNING,
+                state: Stopwatch.State.RUNNING,
+                time: 100,
+                slice: slice
+            });
+
+            getTime.mockReturnValue(1200);
+            stopwatch.stop(true);
+            expect(listener).toHaveBeenLastCalledWith({
+                type: "slice",
+                previousState: Stopwatch.State.RUNNING,
+                state: Stopwatch.State.RUNNING,
+                time: 200,
+                slice: {
+                    startTime: 100,
+                    endTime: 200,
+                    duration: 100
+                }
+            });
+
+            stopwatch.slice();
+            expect(listener).toHaveBeenLastCalledWith({
+                type: "slice",
+                previousState: Stopwatch.State.STOPPED,
+                state: Stopwatch.State.STOPPED,
+                time: 200,
+                slice: {
+                    startTime: 200,
+                    endTime: 200,
+                    duration: 0
+                }
+            });
+            expect(listener).toHaveBeenCalledTimes(3);
+        });
+
+        test("once and off", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+            const onceListener = jest.fn();
+            const listener = jest.fn();
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+
+            stopwatch.once("slice", onceListener).on("slice", listener);
+
+            stopwatch.slice();
+            stopwatch.slice();
+            expect(onceListener).toHaveBeenCalledTimes(1);
+            expect(listener).toHaveBeenCalledTimes(2);
+
+            stopwatch.off("slice", listener);
+            stopwatch.slice();
+            expect(listener).toHaveBeenCalledTimes(2);
+
+            // Removing a "once" listener before it is called
+            stopwatch.once("slice", onceListener);
+            stopwatch.off("slice", onceListener);
+            stopwatch.slice();
+            expect(onceListener).toHaveBeenCalledTimes(1);
+
+            // Removing an unregistered listener does nothing
+            stopwatch.off("stop", listener);
+        });
+
+        test("listeners may remove other listeners", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+            const second = jest.fn();
+            const first = jest.fn(() => {
+                stopwatch.off("start", second);
+            });
+
+            stopwatch.once("start", first).once("start", second);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+
+            expect(first).toHaveBeenCalledTimes(1);
+            expect(second).toHaveBeenCalledTimes(0);
+        });
+
+        test("listeners are not called more than once per event", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+            const listener = jest.fn();
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            stopwatch.once("slice", listener);
+            stopwatch.once("slice", () => stopwatch.slice());
+            stopwatch.slice();
+
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("getSliceStats", () => {
+        test("without slices", () => {
+            const stopwatch = new Stopwatch(jest.fn());
+
+            expect(stopwatch.getSliceStats()).toEqual({
+                count: 0,
+                total: 0,
+                min: NaN,
+                max: NaN,
+                mean: NaN,
+                median: NaN,
+                standardDeviation: NaN,
+                percentiles: { 90: NaN, 95: NaN, 99: NaN }
+            });
+        });
+
+        test("with slices", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(0);
+            stopwatch.start();
+
+            // Durations: 40, 10, 30, 20
+            for (const time of [40, 50, 80, 100]) {
+                getTime.mockReturnValue(time);
+                stopwatch.slice(time === 50 ? "short" : undefined);
+            }
+
+            expect(
+                stopwatch.getSliceStats({ percentiles: [0, 50, 90] })
+            ).toEqual({
+                count: 4,
+                total: 100,
+                min: 10,
+                max: 40,
+                mean: 25,
+                median: 25,
+                standardDeviation: Math.sqrt(125),
+                percentiles: { 0: 10, 50: 25, 90: 37 }
+            });
+
+            expect(
+                stopwatch.getSliceStats({
+                    filter: (slice) => slice.label !== "short"
+                })
+            ).toMatchObject({
+                count: 3,
+                total: 90,
+                min: 20,
+                max: 40,
+                median: 30
+            });
+
+            expect(stopwatch.getSliceStats({ filter: () => true })).toEqual(
+                stopwatch.getSliceStats()
+            );
+
+            // Pending slice is not included
+            getTime.mockReturnValue(1000);
+            expect(stopwatch.getSliceStats().count).toBe(4);
+
+            stopwatch.reset();
+            expect(stopwatch.getSliceStats().count).toBe(0);
+        });
+
+        test("after Stopwatch.fromJSON", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(0);
+            stopwatch.start();
+            getTime.mockReturnValue(10);
+            stopwatch.slice();
+            getTime.mockReturnValue(30);
+            stopwatch.slice();
+
+            const restored = Stopwatch.fromJSON(stopwatch.toJSON(), getTime);
+
+            expect(restored.getSliceStats()).toEqual(stopwatch.getSliceStats());
+        });
+    });
+
+    describe("Child stopwatches", () => {
+        test("share the parent's system time getter", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+            const child = stopwatch.child("phase");
+
+            expect(child.getName()).toBe("phase");
+            expect(stopwatch.getName()).toBeUndefined();
+            expect(stopwatch.getChildren()).toEqual([child]);
+            expect(child.getState()).toBe(Stopwatch.State.IDLE);
+
+            getTime.mockReturnValue(1000);
+            child.start();
+            getTime.mockReturnValue(1100);
+            expect(child.getTime()).toBe(100);
+        });
+
+        test("are stopped when the parent stops", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+            const child = stopwatch.child("phase");
+            const grandchild = child.child("sub-phase");
+            const stopListener = jest.fn();
+
+            grandchild.on("stop", stopListener);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1100);
+            child.start();
+            getTime.mockReturnValue(1200);
+            grandchild.start();
+
+            getTime.mockReturnValue(1300);
+            stopwatch.stop();
+
+            expect(child.isStopped()).toBe(true);
+            expect(grandchild.isStopped()).toBe(true);
+            expect(child.getTime()).toBe(200);
+            expect(grandchild.getTime()).toBe(100);
+            expect(stopListener).toHaveBeenCalledTimes(1);
+
+            // Resuming the parent does not resume children
+            getTime.mockReturnValue(1400);
+            stopwatch.start();
+            expect(child.isStopped()).toBe(true);
+        });
+
+        test("are discarded when the parent is reset", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            stopwatch.child("phase");
+            stopwatch.reset();
+
+            expect(stopwatch.getChildren()).toEqual([]);
+        });
+
+        test("getTree", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+            const load = stopwatch.child("load");
+            const parse = load.child("parse");
+            stopwatch.child("render");
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1100);
+            load.start();
+            getTime.mockReturnValue(1150);
+            parse.start();
+            getTime.mockReturnValue(1200);
+            parse.stop();
+            // Pause the root; the running child is also stopped
+            getTime.mockReturnValue(1300);
+            stopwatch.stop();
+            getTime.mockReturnValue(2000);
+            stopwatch.start();
+            load.start();
+            getTime.mockReturnValue(2100);
+
+            const expectedTree: Stopwatch.TreeNode = {
+                name: undefined,
+                state: Stopwatch.State.RUNNING,
+                time: 400,
+                startOffset: 0,
+                endOffset: 400,
+                children: [
+                    {
+                        name: "load",
+                        state: Stopwatch.State.RUNNING,
+                        time: 300,
+                        startOffset: 100,
+                        endOffset: 400,
+                        children: [
+                            {
+                                name: "parse",
+                                state: Stopwatch.State.STOPPED,
+                                time: 50,
+                                startOffset: 150,
+                                endOffset: 200,
+                                children: []
+                            }
+                        ]
+                    },
+                    {
+                        name: "render",
+                        state: Stopwatch.State.IDLE,
+                        time: 0,
+                        startOffset: undefined,
+                        endOffset: undefined,
+                        children: []
+                    }
+                ]
+            };
+
+            expect(stopwatch.getTree()).toEqual(expectedTree);
+            // Offsets are always relative to the root
+            expect(load.getTree()).toEqual(expectedTree.children[0]);
+
+            getTime.mockReturnValue(2200);
+            stopwatch.stop();
+            getTime.mockReturnValue(3000);
+            expect(stopwatch.getTree().children[0]).toMatchObject({
+                state: Stopwatch.State.STOPPED,
+                time: 400,
+                startOffset: 100,
+                endOffset: 500
+            });
+        });
+    });
+
+    describe("Stopwatch.time / Stopwatch.timeAsync", () => {
+        test("Stopwatch.time", () => {
+            const getTime = jest.fn();
+            getTime.mockReturnValueOnce(1000).mockReturnValueOnce(1100);
+
+            expect(Stopwatch.time(() => 42, getTime)).toEqual({
+                result: 42,
+                duration: 100
+            });
+        });
+
+        test("Stopwatch.time attaches the duration to errors", () => {
+            const getTime = jest.fn();
+            getTime.mockReturnValueOnce(1000).mockReturnValueOnce(1100);
+
+            const error = new Error("failed");
+
+            expect(() =>
+                Stopwatch.time(() => {
+                    throw error;
+                }, getTime)
+            ).toThrow(error);
+            expect((error as Stopwatch.TimedError).duration).toBe(100);
+
+            // Frozen objects are thrown as-is
+            const frozenError = Object.freeze(new Error("frozen"));
+            expect(() =>
+                Stopwatch.time(() => {
+                    throw frozenError;
+                })
+            ).toThrow(frozenError);
+            expect("duration" in frozenError).toBe(false);
+        });
+
+        test("Stopwatch.timeAsync with a function", async () => {
+            const getTime = jest.fn();
+            getTime.mockReturnValueOnce(1000).mockReturnValueOnce(1100);
+
+            const timed = await Stopwatch.timeAsync(
+                () => Promise.resolve("done"),
+                getTime
+            );
+            const result: string = timed.result;
+
+            expect(result).toBe("done");
+            expect(timed.duration).toBe(100);
+        });
+
+        test("Stopwatch.timeAsync with a Promise", async () => {
+            const getTime = jest.fn();
+            getTime.mockReturnValueOnce(1000).mockReturnValueOnce(1100);
+
+            expect(
+                await Stopwatch.timeAsync(Promise.resolve(42), getTime)
+            ).toEqual({
+                result: 42,
+                duration: 100
+            });
+        });
+
+        test("Stopwatch.timeAsync attaches the duration to errors", async () => {
+            const getTime = jest.fn();
+            getTime.mockReturnValue(1000);
+
+            const error = new Error("failed");
+            const promise = Stopwatch.timeAsync(() => {
+                getTime.mockReturnValue(1200);
+                throw error;
+            }, getTime);
+
+            await expect(promise).rejects.toBe(error);
+            expect((error as Stopwatch.TimedError).duration).toBe(200);
+
+            getTime.mockReturnValue(1000);
+            const rejectedPromise = Stopwatch.timeAsync(
+                Promise.reject(error),
+                getTime
+            );
+            getTime.mockReturnValue(1050);
+
+            await expect(rejectedPromise).rejects.toBe(error);
+            expect((error as Stopwatch.TimedError).duration).toBe(50);
+        });
+    });
+
+    describe("getLaps", () => {
+        test("no laps", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            expect(stopwatch.getLaps()).toEqual([]);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+
+            expect(stopwatch.getLaps()).toEqual([]);
+        });
+
+        test("numbers, splits, fastest/slowest and deltas", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch<string>(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1060);
+            stopwatch.slice("first", "meta");
+
+            expect(stopwatch.getLaps()).toEqual([
+                {
+                    startTime: 0,
+                    endTime: 60,
+                    duration: 60,
+                    label: "first",
+                    metadata: "meta",
+                    number: 1,
+                    splitTime: 60,
+                    isFastest: true,
+                    isSlowest: true,
+                    deltaToFastest: 0,
+                    deltaToPrevious: undefined
+                }
+            ]);
+
+            getTime.mockReturnValue(1110);
+            stopwatch.slice();
+            getTime.mockReturnValue(1180);
+            stopwatch.slice();
+            getTime.mockReturnValue(1230);
+            stopwatch.slice();
+
+            const laps = stopwatch.getLaps();
+
+            expect(laps.map((lap) => lap.number)).toEqual([1, 2, 3, 4]);
+            expect(laps.map((lap) => lap.splitTime)).toEqual([
+                60,
+                110,
+                180,
+                230
+            ]);
+            expect(laps.map((lap) => lap.duration)).toEqual([60, 50, 70, 50]);
+            // Ties are flagged on the earliest lap only
+            expect(laps.map((lap) => lap.isFastest)).toEqual([
+                false,
+                true,
+                false,
+                false
+            ]);
+            expect(laps.map((lap) => lap.isSlowest)).toEqual([
+                false,
+                false,
+                true,
+                false
+            ]);
+            expect(laps.map((lap) => lap.deltaToFastest)).toEqual([
+                10,
+                0,
+                20,
+                0
+            ]);
+            expect(laps.map((lap) => lap.deltaToPrevious)).toEqual([
+                undefined,
+                -10,
+                20,
+                -20
+            ]);
+        });
+
+        test("laps are read-only", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            stopwatch.slice();
+
+            expect(() => {
+                (stopwatch.getLaps()[0] as { number: number }).number = 42;
+            }).toThrow();
+        });
+    });
+
+    describe("Slice retention", () => {
+        /**
+         * Records slices with the specified durations.
+         */
+        function recordSlices(
+            stopwatch: Stopwatch,
+            getTime: jest.Mock,
+            durations: number[]
+        ): void {
+            let time = 1000;
+
+            getTime.mockReturnValue(time);
+            stopwatch.start();
+
+            for (const duration of durations) {
+                time += duration;
+                getTime.mockReturnValue(time);
+                stopwatch.slice();
+            }
+        }
+
+        test("rejects invalid options", () => {
+            expect(
+                () => new Stopwatch(undefined, { maxRetainedSlices: -1 })
+            ).toThrow();
+            expect(
+                () => new Stopwatch(undefined, { maxRetainedSlices: 1.5 })
+            ).toThrow();
+            expect(
+                () => new Stopwatch(undefined, { sliceRetentionWindow: NaN })
+            ).toThrow();
+        });
+
+        test("unlimited by default", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            recordSlices(stopwatch, getTime, [10, 20, 30]);
+
+            expect(stopwatch.getCompletedSlices().length).toBe(3);
+            expect(stopwatch.getSliceTotals()).toEqual({
+                count: 3,
+                total: 60,
+                mean: 20,
+                min: 10,
+                max: 30
+            });
+        });
+
+        test("maxRetainedSlices", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime, { maxRetainedSlices: 2 });
+
+            recordSlices(stopwatch, getTime, [10, 20, 30, 40]);
+
+            expect(
+                stopwatch.getCompletedSlices().map((slice) => slice.duration)
+            ).toEqual([30, 40]);
+            expect(stopwatch.getSliceStats()).toMatchObject({
+                count: 2,
+                total: 70,
+                mean: 35,
+                min: 30,
+                max: 40,
+                median: 35,
+                standardDeviation: 5
+            });
+            expect(stopwatch.getSliceTotals()).toEqual({
+                count: 4,
+                total: 100,
+                mean: 25,
+                min: 10,
+                max: 40
+            });
+            expect(stopwatch.getLaps().map((lap) => lap.number)).toEqual([
+                3,
+                4
+            ]);
+        });
+
+        test("maxRetainedSlices of zero", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime, { maxRetainedSlices: 0 });
+
+            recordSlices(stopwatch, getTime, [10, 20]);
+
+            expect(stopwatch.getCompletedSlices()).toEqual([]);
+            expect(stopwatch.getSliceStats().count).toBe(0);
+            expect(stopwatch.getSliceTotals().total).toBe(30);
+        });
+
+        test("sliceRetentionWindow", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime, {
+                sliceRetentionWindow: 50
+            });
+
+            // Slices end at 10, 30, 60, 100
+            recordSlices(stopwatch, getTime, [10, 20, 30, 40]);
+
+            expect(
+                stopwatch.getCompletedSlices().map((slice) => slice.endTime)
+            ).toEqual([60, 100]);
+            expect(stopwatch.getSliceStats().total).toBe(70);
+            expect(stopwatch.getSliceTotals().count).toBe(4);
+        });
+
+        test("sliceRetentionWindow ages out slices as time passes", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime, {
+                sliceRetentionWindow: 50
+            });
+
+            // Slices end at 10, 30, 60, 100
+            recordSlices(stopwatch, getTime, [10, 20, 30, 40]);
+
+            // Stopwatch time 140: only the slice that ended at 100 is retained
+            getTime.mockReturnValue(1140);
+            expect(stopwatch.getSliceStats().count).toBe(1);
+            expect(
+                stopwatch.getCompletedSlices().map((slice) => slice.endTime)
+            ).toEqual([100]);
+
+            // Time while stopped does not count
+            stopwatch.stop();
+            getTime.mockReturnValue(9000);
+            expect(stopwatch.getLaps().length).toBe(1);
+
+            stopwatch.start();
+            getTime.mockReturnValue(9011);
+            expect(stopwatch.getCompletedSlices()).toEqual([]);
+            expect(stopwatch.getSliceStats().count).toBe(0);
+            expect(stopwatch.getSliceTotals().count).toBe(4);
+        });
+
+        test("reset() clears totals", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime, { maxRetainedSlices: 1 });
+
+            recordSlices(stopwatch, getTime, [10, 20]);
+            stopwatch.reset();
+
+            expect(stopwatch.getSliceTotals()).toEqual({
+                count: 0,
+                total: 0,
+                mean: NaN,
+                min: NaN,
+                max: NaN
+            });
+        });
+
+        test("survives toJSON / fromJSON", () => {
+            const getTime = jest.fn();
+            const options = { maxRetainedSlices: 2 };
+            const stopwatch = new Stopwatch(getTime, options);
+
+            recordSlices(stopwatch, getTime, [10, 20, 30]);
+
+            const restored = Stopwatch.fromJSON(
+                JSON.parse(JSON.stringify(stopwatch)),
+                getTime,
+                options
+            );
+
+            expect(restored.getCompletedSlices()).toEqual(
+                stopwatch.getCompletedSlices()
+            );
+            expect(restored.getSliceTotals()).toEqual(
+                stopwatch.getSliceTotals()
+            );
+
+            // Retention of the restored stopwatch applies to restored slices
+            const smaller = Stopwatch.fromJSON(stopwatch.toJSON(), getTime, {
+                maxRetainedSlices: 1
+            });
+
+            expect(smaller.getCompletedSlices().length).toBe(1);
+            expect(smaller.getSliceTotals().count).toBe(3);
+        });
+    });
+
+    describe("Run and stop intervals", () => {
+        test("IDLE", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            expect(stopwatch.getRunIntervals()).toEqual([]);
+            expect(stopwatch.getStopIntervals()).toEqual([]);
+            expect(getTime).toHaveBeenCalledTimes(0);
+        });
+
+        test("records each run and stop", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1100);
+            stopwatch.stop();
+            getTime.mockReturnValue(1150);
+            stopwatch.start();
+            getTime.mockReturnValue(1200);
+            stopwatch.stop();
+            getTime.mockReturnValue(1300);
+
+            // Currently STOPPED: the last stop interval is pending
+            expect(stopwatch.getRunIntervals()).toEqual([
+                {
+                    startSystemTime: 1000,
+                    endSystemTime: 1100,
+                    startTime: 0,
+                    endTime: 100,
+                    duration: 100
+                },
+                {
+                    startSystemTime: 1150,
+                    endSystemTime: 1200,
+                    startTime: 100,
+                    endTime: 150,
+                    duration: 50
+                }
+            ]);
+            expect(stopwatch.getStopIntervals()).toEqual([
+                {
+                    startSystemTime: 1100,
+                    endSystemTime: 1150,
+                    startTime: 100,
+                    endTime: 100,
+                    duration: 50
+                },
+                {
+                    startSystemTime: 1200,
+                    endSystemTime: 1300,
+                    startTime: 150,
+                    endTime: 150,
+                    duration: 100
+                }
+            ]);
+
+            stopwatch.start();
+            getTime.mockReturnValue(1350);
+
+            // Currently RUNNING: the last run interval is pending
+            expect(stopwatch.getRunIntervals()[2]).toEqual({
+                startSystemTime: 1300,
+                endSystemTime: 1350,
+                startTime: 150,
+                endTime: 200,
+                duration: 50
+            });
+            expect(stopwatch.getStopIntervals().length).toBe(2);
+        });
+
+        test("intervals are read-only", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            stopwatch.stop();
+            stopwatch.start();
+
+            expect(() => {
+                (stopwatch.getStopIntervals()[0] as {
+                    duration: number;
+                }).duration = 42;
+            }).toThrow();
+        });
+
+        test("reset() clears intervals", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            stopwatch.stop();
+            stopwatch.start();
+            stopwatch.reset();
+
+            expect(stopwatch.getRunIntervals()).toEqual([]);
+            expect(stopwatch.getStopIntervals()).toEqual([]);
+        });
+
+        test("survive toJSON / fromJSON", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1100);
+            stopwatch.stop();
+            getTime.mockReturnValue(1200);
+            stopwatch.start();
+            getTime.mockReturnValue(1300);
+
+            const restored = Stopwatch.fromJSON(
+                JSON.parse(JSON.stringify(stopwatch)),
+                getTime
+            );
+
+            expect(restored.getRunIntervals()).toEqual(
+                stopwatch.getRunIntervals()
+            );
+            expect(restored.getStopIntervals()).toEqual(
+                stopwatch.getStopIntervals()
+            );
+        });
+    });
+
+    describe("onTick", () => {
+        test("rejects invalid intervals", () => {
+            const stopwatch = new Stopwatch();
+
+            expect(() => stopwatch.onTick(0, () => undefined)).toThrow();
+            expect(() => stopwatch.onTick(-1, () => undefined)).toThrow();
+            expect(() => stopwatch.onTick(NaN, () => undefined)).toThrow();
+        });
+
+        test("ticks are aligned to stopwatch time and corrected for drift", () => {
+            const getTime = jest.fn();
+            const { schedule, runPending } = createFakeSchedule();
+            const callback = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            stopwatch.onTick(100, callback, schedule);
+            expect(schedule).toHaveBeenCalledTimes(0);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            expect(schedule).toHaveBeenLastCalledWith(
+                expect.any(Function),
+                100
+            );
+
+            // Late tick
+            getTime.mockReturnValue(1130);
+            runPending();
+            expect(callback).toHaveBeenLastCalledWith(130);
+            expect(schedule).toHaveBeenLastCalledWith(expect.any(Function), 70);
+
+            // Early tick is only rescheduled
+            getTime.mockReturnValue(1190);
+            runPending();
+            expect(callback).toHaveBeenCalledTimes(1);
+            expect(schedule).toHaveBeenLastCalledWith(expect.any(Function), 10);
+
+            // Very late tick skips missed ticks
+            getTime.mockReturnValue(1420);
+            runPending();
+            expect(callback).toHaveBeenCalledTimes(2);
+            expect(callback).toHaveBeenLastCalledWith(420);
+            expect(schedule).toHaveBeenLastCalledWith(expect.any(Function), 80);
+        });
+
+        test("pauses while stopped and resumes aligned", () => {
+            const getTime = jest.fn();
+            const { schedule, runPending, pendingCount } = createFakeSchedule();
+            const callback = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            stopwatch.onTick(100, callback, schedule);
+            expect(pendingCount()).toBe(1);
+
+            getTime.mockReturnValue(1050);
+            stopwatch.stop();
+            expect(pendingCount()).toBe(0);
+
+            getTime.mockReturnValue(5000);
+            stopwatch.start();
+            expect(schedule).toHaveBeenLastCalledWith(expect.any(Function), 50);
+
+            getTime.mockReturnValue(5050);
+            runPending();
+            expect(callback).toHaveBeenLastCalledWith(100);
+
+            stopwatch.reset();
+            expect(pendingCount()).toBe(0);
+        });
+
+        test("unsubscribe", () => {
+            const getTime = jest.fn();
+            const { schedule, pendingCount } = createFakeSchedule();
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+
+            const unsubscribe = stopwatch.onTick(
+                100,
+                () => undefined,
+                schedule
+            );
+            expect(pendingCount()).toBe(1);
+
+            unsubscribe();
+            expect(pendingCount()).toBe(0);
+
+            stopwatch.stop();
+            stopwatch.start();
+            expect(pendingCount()).toBe(0);
+        });
+
+        test("callback may stop the stopwatch", () => {
+            const getTime = jest.fn();
+            const { schedule, runPending, pendingCount } = createFakeSchedule();
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            stopwatch.onTick(100, () => stopwatch.stop(), schedule);
+
+            getTime.mockReturnValue(1100);
+            runPending();
+
+            expect(stopwatch.isStopped()).toBe(true);
+            expect(pendingCount()).toBe(0);
+        });
+
+        test("uses setTimeout by default", (done) => {
+            const stopwatch = new Stopwatch();
+            const unsubscribe = stopwatch.onTick(10, (time) => {
+                expect(time).toBeGreaterThanOrEqual(10);
+                unsubscribe();
+                done();
+            });
+
+            stopwatch.start();
+        });
+    });
+
+    describe("Manual adjustments", () => {
+        test("adjust() while RUNNING", () => {
+            const getTime = jest.fn();
+            const listener = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            stopwatch.on("adjust", listener);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1100);
+
+            const adjustment = stopwatch.adjust(5000, "penalty");
+
+            expect(adjustment).toEqual({
+                state: Stopwatch.State.RUNNING,
+                previousTime: 100,
+                time: 5100,
+                delta: 5000,
+                reason: "penalty"
+            });
+            expect(listener).toHaveBeenCalledWith({
+                type: "adjust",
+                previousState: Stopwatch.State.RUNNING,
+                state: Stopwatch.State.RUNNING,
+                time: 5100,
+                adjustment: adjustment
+            });
+
+            getTime.mockReturnValue(1200);
+            expect(stopwatch.getTime()).toBe(5200);
+            expect(stopwatch.slice().duration).toBe(5200);
+            expect(stopwatch.getAdjustments()).toEqual([adjustment]);
+        });
+
+        test("setTime() while STOPPED", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1300);
+            stopwatch.slice();
+            getTime.mockReturnValue(1500);
+            stopwatch.stop();
+
+            const adjustment = stopwatch.setTime(250);
+
+            expect(adjustment).toEqual({
+                state: Stopwatch.State.STOPPED,
+                previousTime: 500,
+                time: 250,
+                delta: -250
+            });
+            expect(stopwatch.getTime()).toBe(250);
+            // Pending slice is restarted at the adjusted time
+            expect(stopwatch.getPendingSlice()).toEqual({
+                startTime: 250,
+                endTime: 250,
+                duration: 0
+            });
+            // Completed slices are not affected
+            expect(stopwatch.getCompletedSlices()[0].duration).toBe(300);
+
+            getTime.mockReturnValue(2000);
+            stopwatch.start();
+            getTime.mockReturnValue(2100);
+            expect(stopwatch.getTime()).toBe(350);
+        });
+
+        test("adjustments while IDLE apply from the start", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            stopwatch.setTime(1000, "head start");
+            expect(stopwatch.isIdle()).toBe(true);
+            expect(stopwatch.getTime()).toBe(1000);
+            expect(stopwatch.getPendingSlice()).toEqual({
+                startTime: 0,
+                endTime: 0,
+                duration: 0
+            });
+            expect(stopwatch.stop()).toBe(1000);
+            expect(stopwatch.isIdle()).toBe(true);
+            expect(getTime).toHaveBeenCalledTimes(0);
+
+            getTime.mockReturnValue(5000);
+            stopwatch.start();
+            getTime.mockReturnValue(5100);
+
+            expect(stopwatch.getTime()).toBe(1100);
+            expect(stopwatch.slice()).toEqual({
+                startTime: 1000,
+                endTime: 1100,
+                duration: 100
+            });
+            expect(stopwatch.getRunIntervals()[0]).toMatchObject({
+                startTime: 1000,
+                endTime: 1100
+            });
+        });
+
+        test("rejects invalid adjustments", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1100);
+
+            expect(() => stopwatch.adjust(NaN)).toThrow();
+            expect(() => stopwatch.adjust(-101)).toThrow();
+            expect(() => stopwatch.setTime(-1)).toThrow();
+            expect(() => stopwatch.setTime(Infinity)).toThrow();
+            expect(stopwatch.getAdjustments()).toEqual([]);
+        });
+
+        test("reset() clears adjustments", () => {
+            const stopwatch = new Stopwatch();
+
+            stopwatch.adjust(100);
+            stopwatch.reset();
+
+            expect(stopwatch.getTime()).toBe(0);
+            expect(stopwatch.getAdjustments()).toEqual([]);
+        });
+
+        test("survive toJSON / fromJSON", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            stopwatch.adjust(2000, "penalty");
+            getTime.mockReturnValue(1100);
+
+            const restored = Stopwatch.fromJSON(
+                JSON.parse(JSON.stringify(stopwatch)),
+                getTime
+            );
+
+            expect(restored.getTime()).toBe(2100);
+            expect(restored.getAdjustments()).toEqual(
+                stopwatch.getAdjustments()
+            );
+        });
+
+        test("onTick is realigned", () => {
+            const getTime = jest.fn();
+            const schedule = jest.fn(() => () => undefined);
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            stopwatch.onTick(100, () => undefined, schedule);
+            getTime.mockReturnValue(1010);
+            stopwatch.adjust(50);
+
+            expect(schedule).toHaveBeenLastCalledWith(expect.any(Function), 40);
+        });
+    });
+
+    describe("Clock going backwards", () => {
+        test("clamp (default)", () => {
+            const getTime = jest.fn();
+            const listener = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            stopwatch.on("clockBackwards", listener);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1100);
+            expect(stopwatch.getTime()).toBe(100);
+
+            getTime.mockReturnValue(1040);
+            expect(stopwatch.getTime()).toBe(100);
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(listener).toHaveBeenCalledWith({
+                type: "clockBackwards",
+                previousState: Stopwatch.State.RUNNING,
+                state: Stopwatch.State.RUNNING,
+                time: 100,
+                jump: 60,
+                policy: "clamp"
+            });
+
+            // Still behind, but not a new jump
+            getTime.mockReturnValue(1070);
+            expect(stopwatch.slice().duration).toBe(100);
+            expect(listener).toHaveBeenCalledTimes(1);
+
+            // Caught up
+            getTime.mockReturnValue(1150);
+            expect(stopwatch.getTime()).toBe(150);
+            expect(stopwatch.getPendingSlice().duration).toBe(50);
+        });
+
+        test("ignore", () => {
+            const getTime = jest.fn();
+            const listener = jest.fn();
+            const stopwatch = new Stopwatch(getTime, {
+                clockBackwardsPolicy: "ignore"
+            });
+
+            stopwatch.on("clockBackwards", listener);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1100);
+            stopwatch.slice();
+
+            getTime.mockReturnValue(600);
+            expect(stopwatch.getTime()).toBe(100);
+            expect(listener).toHaveBeenCalledWith(
+                expect.objectContaining({ jump: 500, policy: "ignore" })
+            );
+
+            // Time continues to pass from the new system time
+            getTime.mockReturnValue(630);
+            expect(stopwatch.slice().duration).toBe(30);
+            expect(stopwatch.getTime()).toBe(130);
+        });
+
+        test("ignore survives toJSON / fromJSON", () => {
+            const getTime = jest.fn();
+            const options = { clockBackwardsPolicy: "ignore" as const };
+            const stopwatch = new Stopwatch(getTime, options);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1100);
+            expect(stopwatch.getTime()).toBe(100);
+            getTime.mockReturnValue(600);
+            expect(stopwatch.getTime()).toBe(100);
+
+            const restored = Stopwatch.fromJSON(
+                JSON.parse(JSON.stringify(stopwatch)),
+                getTime,
+                options
+            );
+
+            expect(restored.getTime()).toBe(100);
+            getTime.mockReturnValue(650);
+            expect(restored.getTime()).toBe(150);
+
+            // A further backward jump is still detected
+            getTime.mockReturnValue(640);
+            expect(restored.getTime()).toBe(150);
+        });
+
+        test("throw", () => {
+            const getTime = jest.fn();
+            const listener = jest.fn();
+            const stopwatch = new Stopwatch(getTime, {
+                clockBackwardsPolicy: "throw"
+            });
+
+            stopwatch.on("clockBackwards", listener);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1100);
+            stopwatch.stop();
+
+            getTime.mockReturnValue(1090);
+            expect(() => stopwatch.start()).toThrow();
+            expect(stopwatch.isStopped()).toBe(true);
+            expect(listener).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    state: Stopwatch.State.STOPPED,
+                    time: 100,
+                    jump: 10,
+                    policy: "throw"
+                })
+            );
+
+            // Clamped after the jump was reported
+            stopwatch.start();
+            getTime.mockReturnValue(1120);
+            expect(stopwatch.getTime()).toBe(120);
+        });
+
+        test("child stopwatches share the policy", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime, {
+                clockBackwardsPolicy: "throw"
+            });
+            const child = stopwatch.child("child");
+
+            getTime.mockReturnValue(1000);
+            child.start();
+            getTime.mockReturnValue(900);
+
+            expect(() => child.getTime()).toThrow();
+        });
+    });
+
+    describe("Thresholds", () => {
+        test("fires once when the total time crosses the limit", () => {
+            const callback = jest.fn();
+            const threshold = { limit: 100, callback: callback };
+            const { stopwatch, clock } = createManualStopwatch({
+                thresholds: [threshold]
+            });
+
+            stopwatch.start();
+            clock.advance(99);
+            expect(callback).not.toHaveBeenCalled();
+            expect(stopwatch.getRemainingBudget()).toBe(1);
+            expect(stopwatch.isOverBudget()).toBe(false);
+
+            clock.advance(1);
+            expect(callback).toHaveBeenCalledTimes(1);
+            expect(callback).toHaveBeenCalledWith({
+                threshold: threshold,
+                time: 100,
+                value: 100
+            });
+            expect(stopwatch.getRemainingBudget()).toBe(0);
+            expect(stopwatch.isOverBudget()).toBe(true);
+
+            clock.advance(50);
+            expect(stopwatch.getTime()).toBe(150);
+            expect(stopwatch.getRemainingBudget()).toBe(-50);
+            expect(callback).toHaveBeenCalledTimes(1);
+            expect(clock.getPendingCount()).toBe(0);
+        });
+
+        test("stopped time does not count", () => {
+            const callback = jest.fn();
+            const { stopwatch, clock } = createManualStopwatch({
+                thresholds: [{ limit: 100, callback: callback }]
+            });
+
+            stopwatch.start();
+            clock.advance(60);
+            stopwatch.stop();
+            expect(clock.getPendingCount()).toBe(0);
+            clock.advance(1000);
+            expect(callback).not.toHaveBeenCalled();
+
+            stopwatch.start();
+            clock.advance(39);
+            expect(callback).not.toHaveBeenCalled();
+            clock.advance(1);
+            expect(callback).toHaveBeenCalledWith(
+                expect.objectContaining({ time: 100 })
+            );
+        });
+
+        test("slice thresholds re-arm for every slice", () => {
+            const callback = jest.fn();
+            const { stopwatch, clock } = createManualStopwatch({
+                thresholds: [{ limit: 50, target: "slice", callback: callback }]
+            });
+
+            stopwatch.start();
+            clock.advance(30);
+            stopwatch.slice();
+            clock.advance(30);
+            expect(callback).not.toHaveBeenCalled();
+            expect(stopwatch.getRemainingBudget()).toBe(20);
+
+            clock.advance(20);
+            expect(callback).toHaveBeenCalledTimes(1);
+            expect(callback).toHaveBeenLastCalledWith(
+                expect.objectContaining({ time: 80, value: 50 })
+            );
+
+            stopwatch.slice();
+            expect(stopwatch.isOverBudget()).toBe(false);
+            clock.advance(50);
+            expect(callback).toHaveBeenCalledTimes(2);
+            expect(callback).toHaveBeenLastCalledWith(
+                expect.objectContaining({ time: 130, value: 50 })
+            );
+        });
+
+        test("evaluated by getTime() and slice() without a scheduler", () => {
+            const getTime = jest.fn();
+            const totalCallback = jest.fn();
+            const sliceCallback = jest.fn();
+            const stopwatch = new Stopwatch(getTime, {
+                thresholds: [
+                    { limit: 100, callback: totalCallback },
+                    { limit: 30, target: "slice", callback: sliceCallback }
+                ],
+                schedule: () => () => undefined
+            });
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1040);
+            expect(sliceCallback).not.toHaveBeenCalled();
+            stopwatch.slice();
+            expect(sliceCallback).toHaveBeenCalledWith(
+                expect.objectContaining({ time: 40, value: 40 })
+            );
+
+            getTime.mockReturnValue(1120);
+            expect(totalCallback).not.toHaveBeenCalled();
+            expect(stopwatch.getTime()).toBe(120);
+            expect(totalCallback).toHaveBeenCalledWith(
+                expect.objectContaining({ time: 120, value: 120 })
+            );
+            expect(sliceCallback).toHaveBeenCalledTimes(2);
+        });
+
+        test("re-armed on reset", () => {
+            const callback = jest.fn();
+            const { stopwatch, clock } = createManualStopwatch({
+                thresholds: [{ limit: 100, callback: callback }]
+            });
+
+            stopwatch.start();
+            clock.advance(100);
+            expect(callback).toHaveBeenCalledTimes(1);
+
+            stopwatch.reset();
+            expect(stopwatch.getRemainingBudget()).toBe(100);
+            clock.advance(1000);
+            expect(callback).toHaveBeenCalledTimes(1);
+
+            stopwatch.start();
+            clock.advance(100);
+            expect(callback).toHaveBeenCalledTimes(2);
+        });
+
+        test("adjustments", () => {
+            const callback = jest.fn();
+            const { stopwatch, clock } = createManualStopwatch({
+                thresholds: [{ limit: 100, callback: callback }]
+            });
+
+            stopwatch.start();
+            clock.advance(10);
+            stopwatch.adjust(50);
+            expect(callback).not.toHaveBeenCalled();
+
+            // Rescheduled for the adjusted time
+            clock.advance(40);
+            expect(callback).toHaveBeenCalledWith(
+                expect.objectContaining({ time: 100 })
+            );
+
+            stopwatch.reset();
+            stopwatch.stop();
+            stopwatch.start();
+            stopwatch.stop();
+            stopwatch.setTime(150);
+            expect(callback).toHaveBeenCalledTimes(2);
+        });
+
+        test("addThreshold", () => {
+            const first = jest.fn();
+            const second = jest.fn();
+            const { stopwatch, clock } = createManualStopwatch();
+
+            stopwatch.start();
+            clock.advance(50);
+
+            stopwatch.addThreshold({ limit: 20, callback: first });
+            expect(first).toHaveBeenCalledWith(
+                expect.objectContaining({ time: 50, value: 50 })
+            );
+
+            const cancel = stopwatch.addThreshold({
+                limit: 80,
+                callback: second
+            });
+
+            expect(stopwatch.getRemainingBudget()).toBe(-30);
+            cancel();
+            expect(clock.getPendingCount()).toBe(0);
+            clock.advance(100);
+            expect(second).not.toHaveBeenCalled();
+
+            expect(() =>
+                stopwatch.addThreshold({ limit: -1, callback: first })
+            ).toThrowError("Invalid threshold limit: -1");
+            expect(() =>
+                stopwatch.addThreshold({ limit: NaN, callback: first })
+            ).toThrowError("Invalid threshold limit: NaN");
+        });
+
+        test("scheduled checks do not throw when the clock goes backwards", () => {
+            const getTime = jest.fn();
+            const onClockBackwards = jest.fn();
+            const scheduled: (() => void)[] = [];
+            const stopwatch = new Stopwatch(getTime, {
+                clockBackwardsPolicy: "throw",
+                thresholds: [{ limit: 100, callback: jest.fn() }],
+                schedule: (callback) => {
+                    scheduled.push(callback);
+                    return () => undefined;
+                }
+            });
+
+            stopwatch.on("clockBackwards", onClockBackwards);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            expect(scheduled.length).toBe(1);
+
+            getTime.mockReturnValue(900);
+            expect(() => scheduled[0]()).not.toThrow();
+            expect(onClockBackwards).toHaveBeenCalledTimes(1);
+            // Rescheduled
+            expect(scheduled.length).toBe(2);
+
+            // The jump was already detected
+            expect(stopwatch.getTime()).toBe(0);
+        });
+
+        test("callbacks may stop the stopwatch", () => {
+            const { stopwatch, clock } = createManualStopwatch({
+                thresholds: [
+                    {
+                        limit: 100,
+                        callback: () => {
+                            stopwatch.stop();
+                        }
+                    }
+                ]
+            });
+
+            stopwatch.start();
+            clock.advance(150);
+            expect(stopwatch.isStopped()).toBe(true);
+            expect(stopwatch.getTime()).toBe(100);
+            expect(clock.getPendingCount()).toBe(0);
+        });
+
+        test("not inherited by child stopwatches", () => {
+            const callback = jest.fn();
+            const { stopwatch, clock } = createManualStopwatch({
+                thresholds: [{ limit: 100, callback: callback }]
+            });
+            const child = stopwatch.child("child");
+
+            child.start();
+            clock.advance(200);
+            expect(child.getRemainingBudget()).toBe(Infinity);
+            expect(callback).not.toHaveBeenCalled();
+        });
+
+        test("restored running stopwatch", () => {
+            const callback = jest.fn();
+            const { stopwatch, clock } = createManualStopwatch();
+
+            stopwatch.start();
+            clock.advance(60);
+
+            const restored = Stopwatch.fromJSON(stopwatch.toJSON(), clock.now, {
+                thresholds: [{ limit: 100, callback: callback }],
+                schedule: clock.schedule
+            });
+
+            clock.advance(40);
+            expect(callback).toHaveBeenCalledWith(
+                expect.objectContaining({ time: 100 })
+            );
+            expect(restored.isOverBudget()).toBe(true);
+        });
+    });
+
+    describe("signalAfter", () => {
+        test("aborts when the stopwatch time reaches the deadline", () => {
+            const { stopwatch, clock } = createManualStopwatch();
+            const signal = stopwatch.signalAfter(100);
+            const onAbort = jest.fn();
+
+            signal.addEventListener("abort", onAbort);
+
+            // Idle time does not count
+            clock.advance(500);
+            expect(signal.aborted).toBe(false);
+
+            stopwatch.start();
+            clock.advance(99);
+            expect(signal.aborted).toBe(false);
+            clock.advance(1);
+            expect(signal.aborted).toBe(true);
+            expect(onAbort).toHaveBeenCalledTimes(1);
+            expect(clock.getPendingCount()).toBe(0);
+            expect(stopwatch.getRemainingBudget()).toBe(Infinity);
+        });
+
+        test("suspended while stopped", () => {
+            const { stopwatch, clock } = createManualStopwatch();
+
+            stopwatch.start();
+            clock.advance(60);
+
+            const signal = stopwatch.signalAfter(100);
+
+            stopwatch.stop();
+            clock.advance(1000);
+            expect(signal.aborted).toBe(false);
+
+            stopwatch.start();
+            clock.advance(39);
+            expect(signal.aborted).toBe(false);
+            clock.advance(1);
+            expect(signal.aborted).toBe(true);
+        });
+
+        test("deadline already reached", () => {
+            const { stopwatch, clock } = createManualStopwatch();
+
+            stopwatch.start();
+            clock.advance(150);
+
+            const signal = stopwatch.signalAfter(100);
+
+            expect(signal.aborted).toBe(true);
+            expect(stopwatch.getRemainingBudget()).toBe(Infinity);
+            expect(clock.getPendingCount()).toBe(0);
+        });
+
+        test("cleaned up on reset", () => {
+            const { stopwatch, clock } = createManualStopwatch();
+
+            stopwatch.start();
+
+            const signal = stopwatch.signalAfter(100);
+
+            clock.advance(50);
+            stopwatch.reset();
+            expect(clock.getPendingCount()).toBe(0);
+
+            stopwatch.start();
+            clock.advance(200);
+            expect(signal.aborted).toBe(false);
+        });
+
+        test("cleaned up on reset while IDLE", () => {
+            const { stopwatch, clock } = createManualStopwatch();
+            const signal = stopwatch.signalAfter(100);
+
+            stopwatch.reset();
+            stopwatch.start();
+            clock.advance(200);
+            expect(signal.aborted).toBe(false);
+        });
+
+        test("deadlines do not count towards the budget", () => {
+            const { stopwatch, clock } = createManualStopwatch();
+            const onThreshold = jest.fn();
+
+            stopwatch.signalAfter(100);
+            expect(stopwatch.getRemainingBudget()).toBe(Infinity);
+
+            stopwatch.addThreshold({ limit: 500, callback: onThreshold });
+            stopwatch.start();
+            clock.advance(200);
+            expect(stopwatch.getRemainingBudget()).toBe(300);
+            expect(stopwatch.isOverBudget()).toBe(false);
+        });
+
+        test("timeout reason", () => {
+            const abort = jest.fn();
+            const win = window as any;
+            const OriginalAbortController = win.AbortController;
+
+            win.AbortController = class {
+                public signal: object = {};
+                public abort: jest.Mock = abort;
+            };
+
+            try {
+                const { stopwatch, clock } = createManualStopwatch();
+
+                stopwatch.signalAfter(100);
+                stopwatch.start();
+                clock.advance(100);
+            } finally {
+                win.AbortController = OriginalAbortController;
+            }
+
+            expect(abort).toHaveBeenCalledTimes(1);
+
+            const reason = abort.mock.calls[0][0];
+
+            expect(reason.name).toBe("TimeoutError");
+            expect(reason.message).toBe("Stopwatch time reached 100");
+        });
+
+        test("invalid deadline", () => {
+            const stopwatch = new Stopwatch();
+
+            expect(() => stopwatch.signalAfter(-1)).toThrowError(
+                "Invalid deadline: -1"
+            );
+            expect(() => stopwatch.signalAfter(Infinity)).toThrowError(
+                "Invalid deadline: Infinity"
+            );
+        });
+    });
+
+    describe("toJSON / Stopwatch.fromJSON", () => {
+        test("round trip while IDLE", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            const snapshot = stopwatch.toJSON();
+            expect(snapshot).toEqual({
+                version: Stopwatch.SNAPSHOT_VERSION,
+                startSystemTime: null,
+                stopSystemTime: null,
+                stopDuration: 0,
+                completedStopIntervals: [],
+                adjustments: [],
+                pendingSliceStartStopwatchTime: null,
+                completedSlices: [],
+                sliceTotals: { count: 0, total: 0, min: null, max: null },
+                systemTimeOffset: 0,
+                lastRawSystemTime: null
+            });
+
+            const restored = Stopwatch.fromJSON(snapshot, getTime);
+            expect(restored.getState()).toBe(Stopwatch.State.IDLE);
+            expect(restored.getTime()).toBe(0);
+            expect(getTime).toHaveBeenCalledTimes(0);
+        });
+
+        test("round trip while RUNNING continues accumulating", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1100);
+            stopwatch.stop();
+            getTime.mockReturnValue(1200);
+            stopwatch.start();
+            getTime.mockReturnValue(1300);
+            stopwatch.slice();
+
+            const json = JSON.stringify(stopwatch);
+            const restored = Stopwatch.fromJSON(JSON.parse(json), getTime);
+
+            getTime.mockReturnValue(1500);
+            expect(restored.getState()).toBe(Stopwatch.State.RUNNING);
+            expect(restored.getTime()).toBe(400);
+            expect(restored.getCompletedAndPendingSlices()).toEqual([
+                {
+                    startTime: 0,
+                    endTime: 200,
+                    duration: 200
+                },
+                {
+                    startTime: 200,
+                    endTime: 400,
+                    duration: 200
+                }
+            ]);
+        });
+
+        test("round trip while STOPPED", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1100);
+            stopwatch.stop(true);
+
+            const restored = Stopwatch.fromJSON(
+                JSON.parse(JSON.stringify(stopwatch)),
+                getTime
+            );
+
+            getTime.mockReturnValue(1500);
+            expect(restored.getState()).toBe(Stopwatch.State.STOPPED);
+            expect(restored.getTime()).toBe(100);
+            expect(restored.getCompletedSlices()).toEqual([
+                {
+                    startTime: 0,
+                    endTime: 100,
+                    duration: 100
+                }
+            ]);
+
+            restored.start();
+            getTime.mockReturnValue(1600);
+            expect(restored.getTime()).toBe(200);
+        });
+
+        test("restored slices are read-only", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+            getTime.mockReturnValue(1100);
+            stopwatch.slice();
+
+            const restored = Stopwatch.fromJSON(
+                JSON.parse(JSON.stringify(stopwatch)),
+                getTime
+            );
+
+            expect(() => {
+                (restored.getCompletedSlices()[0] as MutableSlice).endTime = 42;
+            }).toThrow();
+        });
+
+        test("rejects invalid snapshots", () => {
+            const valid = new Stopwatch().toJSON();
+
+            expect(() => Stopwatch.fromJSON(null)).toThrow();
+            expect(() => Stopwatch.fromJSON("{}")).toThrow();
+            expect(() =>
+                Stopwatch.fromJSON({ ...valid, version: 42 })
+            ).toThrow();
+            expect(() =>
+                Stopwatch.fromJSON({ ...valid, stopDuration: -1 })
+            ).toThrow();
+            expect(() =>
+                Stopwatch.fromJSON({ ...valid, startSystemTime: "1000" })
+            ).toThrow();
+            expect(() =>
+                Stopwatch.fromJSON({ ...valid, completedSlices: [{}] })
+            ).toThrow();
+            expect(() =>
+                Stopwatch.fromJSON({ ...valid, completedStopIntervals: [{}] })
+            ).toThrow();
+            expect(() =>
+                Stopwatch.fromJSON({
+                    ...valid,
+                    sliceTotals: { count: -1, total: 0, min: null, max: null }
+                })
+            ).toThrow();
+            expect(() =>
+                Stopwatch.fromJSON({
+                    ...valid,
+                    adjustments: [{ state: "NOPE", previousTime: 0, time: 1 }]
+                })
+            ).toThrow();
+            expect(() =>
+                Stopwatch.fromJSON({
+                    ...valid,
+                    startSystemTime: 1000,
+                    pendingSliceStartStopwatchTime: 0,
+                    completedSlices: [
+                        { startTime: 0, endTime: 1, duration: 1, label: 42 }
+                    ]
+                })
+            ).toThrow();
+            // IDLE with leftover data
+            expect(() =>
+                Stopwatch.fromJSON({ ...valid, stopSystemTime: 1000 })
+            ).toThrow();
+            // Started without a pending slice
+            expect(() =>
+                Stopwatch.fromJSON({ ...valid, startSystemTime: 1000 })
+            ).toThrow();
+            // Stopped before it was started
+            expect(() =>
+                Stopwatch.fromJSON({
+                    ...valid,
+                    startSystemTime: 1000,
+                    stopSystemTime: 900,
+                    pendingSliceStartStopwatchTime: 0
+                })
+            ).toThrow();
+            expect(() =>
+                Stopwatch.fromJSON({ ...valid, systemTimeOffset: -1 })
+            ).toThrow();
+            expect(() =>
+                Stopwatch.fromJSON({ ...valid, lastRawSystemTime: "1000" })
+            ).toThrow();
+        });
+
+        test("version 4 snapshots", () => {
+            const getTime = jest.fn();
+            const stopwatch = new Stopwatch(getTime);
+
+            getTime.mockReturnValue(1000);
+            stopwatch.start();
+
+            const {
+                systemTimeOffset,
+                lastRawSystemTime,
+                ...snapshot
+            } = stopwatch.toJSON();
+            const restored = Stopwatch.fromJSON(
+                { ...snapshot, version: 4 },
+                getTime
+            );
+
+            getTime.mockReturnValue(1100);
+            expect(restored.getTime()).toBe(100);
+        });
+    });
 });
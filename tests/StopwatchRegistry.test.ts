@@ -0,0 +1,123 @@
+import { Stopwatch, StopwatchRegistry } from "../src";
+
+describe("StopwatchRegistry", () => {
+    test("get() creates stopwatches on demand", () => {
+        const registry = new StopwatchRegistry();
+
+        expect(registry.has("db")).toBe(false);
+
+        const db = registry.get("db");
+
+        expect(db).toBeInstanceOf(Stopwatch);
+        expect(db.isIdle()).toBe(true);
+        expect(registry.get("db")).toBe(db);
+        expect(registry.has("db")).toBe(true);
+
+        registry.get("http");
+
+        expect(registry.getNames()).toEqual(["db", "http"]);
+    });
+
+    test("delete() and clear()", () => {
+        const registry = new StopwatchRegistry();
+        const db = registry.get("db");
+
+        registry.get("http");
+
+        expect(registry.delete("db")).toBe(true);
+        expect(registry.delete("db")).toBe(false);
+        expect(registry.getNames()).toEqual(["http"]);
+        expect(registry.get("db")).not.toBe(db);
+
+        registry.clear();
+
+        expect(registry.getNames()).toEqual([]);
+    });
+
+    test("group control", () => {
+        const getTime = jest.fn();
+        const registry = new StopwatchRegistry(getTime);
+        const a = registry.get("a");
+        const b = registry.get("b");
+
+        getTime.mockReturnValue(1000);
+        registry.startAll();
+
+        expect(a.isRunning()).toBe(true);
+        expect(b.isRunning()).toBe(true);
+
+        getTime.mockReturnValue(1100);
+        registry.stopAll();
+
+        expect(a.isStopped()).toBe(true);
+        expect(b.getTime()).toBe(100);
+
+        getTime.mockReturnValue(1200);
+        registry.startAll(true);
+
+        expect(a.getTime()).toBe(0);
+        expect(b.isRunning()).toBe(true);
+
+        registry.resetAll();
+
+        expect(a.isIdle()).toBe(true);
+        expect(b.isIdle()).toBe(true);
+    });
+
+    test("getReport()", () => {
+        const getTime = jest.fn();
+        const registry = new StopwatchRegistry(getTime);
+        const a = registry.get("a");
+
+        registry.get("b");
+
+        getTime.mockReturnValue(1000);
+        a.start();
+        getTime.mockReturnValue(1010);
+        a.slice();
+        getTime.mockReturnValue(1040);
+        a.slice();
+
+        const report = registry.getReport();
+
+        expect(report.length).toBe(2);
+        expect(report[0]).toMatchObject({
+            name: "a",
+            state: Stopwatch.State.RUNNING,
+            time: 40,
+            sliceCount: 2,
+            stats: { count: 2, total: 40, mean: 20, min: 10, max: 30 }
+        });
+        expect(report[1]).toMatchObject({
+            name: "b",
+            state: Stopwatch.State.IDLE,
+            time: 0,
+            sliceCount: 0
+        });
+        expect(report[1].stats.mean).toBeNaN();
+    });
+
+    test("formatReport()", () => {
+        const getTime = jest.fn();
+        const registry = new StopwatchRegistry(getTime);
+        const database = registry.get("database");
+
+        registry.get("b");
+
+        getTime.mockReturnValue(1000);
+        database.start();
+        getTime.mockReturnValue(2500);
+        database.slice();
+        getTime.mockReturnValue(3000);
+        database.stop(true);
+
+        expect(registry.formatReport({ pattern: "s.SSS" })).toBe(
+            [
+                "Name      State     Time  Slices   Mean    Min    Max",
+                "--------  -------  -----  ------  -----  -----  -----",
+                "database  STOPPED  2.000       2  1.000  0.500  1.500",
+                "b         IDLE     0.000       0      -      -      -"
+            ].join("\n")
+        );
+    });
+});
@@ -0,0 +1,193 @@
+import { Timer } from "../src";
+import { createFakeSchedule } from "./helpers";
+
+describe("Timer", () => {
+    test("rejects invalid durations", () => {
+        expect(() => new Timer(-1)).toThrow();
+        expect(() => new Timer(NaN)).toThrow();
+        expect(() => new Timer(Infinity)).toThrow();
+    });
+
+    test("Uses setTimeout by default", (done) => {
+        const timer = new Timer(50, {
+            onExpire: () => {
+                expect(timer.getState()).toBe(Timer.State.EXPIRED);
+                done();
+            }
+        });
+
+        timer.start();
+    });
+
+    test("initial", () => {
+        const getTime = jest.fn();
+        const { schedule } = createFakeSchedule();
+        const timer = new Timer(1000, {
+            getSystemTime: getTime,
+            schedule: schedule
+        });
+
+        expect(timer.getDuration()).toBe(1000);
+        expect(timer.getState()).toBe(Timer.State.IDLE);
+        expect(timer.isIdle()).toBe(true);
+        expect(timer.getTime()).toBe(0);
+        expect(timer.getRemainingTime()).toBe(1000);
+        expect(timer.stop()).toBe(1000);
+        expect(getTime).toHaveBeenCalledTimes(0);
+        expect(schedule).toHaveBeenCalledTimes(0);
+    });
+
+    test("counts down while running and pauses while stopped", () => {
+        const getTime = jest.fn();
+        const { schedule } = createFakeSchedule();
+        const onExpire = jest.fn();
+        const timer = new Timer(1000, {
+            getSystemTime: getTime,
+            schedule: schedule,
+            onExpire: onExpire
+        });
+
+        getTime.mockReturnValue(1000);
+        timer.start();
+        expect(timer.isRunning()).toBe(true);
+        expect(schedule).toHaveBeenLastCalledWith(expect.any(Function), 1000);
+
+        getTime.mockReturnValue(1300);
+        expect(timer.getRemainingTime()).toBe(700);
+        expect(timer.stop()).toBe(700);
+        expect(timer.isStopped()).toBe(true);
+
+        getTime.mockReturnValue(5000);
+        expect(timer.getRemainingTime()).toBe(700);
+        expect(timer.getTime()).toBe(300);
+
+        timer.start();
+        expect(schedule).toHaveBeenLastCalledWith(expect.any(Function), 700);
+
+        getTime.mockReturnValue(5500);
+        expect(timer.getRemainingTime()).toBe(200);
+        expect(onExpire).toHaveBeenCalledTimes(0);
+    });
+
+    test("expires via scheduled callback", () => {
+        const getTime = jest.fn();
+        const { schedule, runPending, pendingCount } = createFakeSchedule();
+        const onExpire = jest.fn();
+        const timer = new Timer(1000, {
+            getSystemTime: getTime,
+            schedule: schedule,
+            onExpire: onExpire
+        });
+
+        getTime.mockReturnValue(1000);
+        timer.start();
+
+        // Callback runs early; check is rescheduled
+        getTime.mockReturnValue(1900);
+        runPending();
+        expect(onExpire).toHaveBeenCalledTimes(0);
+        expect(schedule).toHaveBeenLastCalledWith(expect.any(Function), 100);
+
+        getTime.mockReturnValue(2050);
+        runPending();
+        expect(onExpire).toHaveBeenCalledTimes(1);
+        expect(onExpire).toHaveBeenCalledWith(timer);
+        expect(pendingCount()).toBe(0);
+
+        expect(timer.getState()).toBe(Timer.State.EXPIRED);
+        expect(timer.isExpired()).toBe(true);
+        expect(timer.getRemainingTime()).toBe(0);
+        expect(timer.getTime()).toBe(1000);
+
+        // Expired timers can't be started or stopped
+        timer.start();
+        expect(timer.stop()).toBe(0);
+        expect(timer.isExpired()).toBe(true);
+        expect(onExpire).toHaveBeenCalledTimes(1);
+    });
+
+    test("expires lazily when queried", () => {
+        const getTime = jest.fn();
+        const { schedule, pendingCount } = createFakeSchedule();
+        const onExpire = jest.fn();
+        const timer = new Timer(1000, {
+            getSystemTime: getTime,
+            schedule: schedule,
+            onExpire: onExpire
+        });
+
+        getTime.mockReturnValue(1000);
+        timer.start();
+
+        getTime.mockReturnValue(3000);
+        expect(timer.getRemainingTime()).toBe(0);
+        expect(timer.isExpired()).toBe(true);
+        expect(onExpire).toHaveBeenCalledTimes(1);
+        // The scheduled callback was cancelled
+        expect(pendingCount()).toBe(0);
+    });
+
+    test("zero duration expires immediately", () => {
+        const getTime = jest.fn();
+        const { schedule } = createFakeSchedule();
+        const onExpire = jest.fn();
+        const timer = new Timer(0, {
+            getSystemTime: getTime,
+            schedule: schedule,
+            onExpire: onExpire
+        });
+
+        getTime.mockReturnValue(1000);
+        timer.start();
+        expect(onExpire).toHaveBeenCalledTimes(1);
+        expect(timer.isExpired()).toBe(true);
+        expect(schedule).toHaveBeenCalledTimes(0);
+    });
+
+    test("stop cancels the scheduled callback", () => {
+        const getTime = jest.fn();
+        const { schedule, pendingCount } = createFakeSchedule();
+        const timer = new Timer(1000, {
+            getSystemTime: getTime,
+            schedule: schedule
+        });
+
+        getTime.mockReturnValue(1000);
+        timer.start();
+        expect(pendingCount()).toBe(1);
+
+        getTime.mockReturnValue(1100);
+        timer.stop();
+        expect(pendingCount()).toBe(0);
+    });
+
+    test("reset and start(true)", () => {
+        const getTime = jest.fn();
+        const { schedule, pendingCount } = createFakeSchedule();
+        const onExpire = jest.fn();
+        const timer = new Timer(1000, {
+            getSystemTime: getTime,
+            schedule: schedule,
+            onExpire: onExpire
+        });
+
+        getTime.mockReturnValue(1000);
+        timer.start();
+        getTime.mockReturnValue(2000);
+        expect(timer.isExpired()).toBe(true);
+
+        timer.reset();
+        expect(timer.getState()).toBe(Timer.State.IDLE);
+        expect(timer.getRemainingTime()).toBe(1000);
+
+        timer.start();
+        getTime.mockReturnValue(2500);
+        timer.start(true);
+        expect(timer.isRunning()).toBe(true);
+        expect(pendingCount()).toBe(1);
+
+        getTime.mockReturnValue(3500);
+        expect(timer.isExpired()).toBe(true);
+        expect(onExpire).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,149 @@
+import { benchmark } from "../src";
+
+describe("benchmark", () => {
+    test("fixed iterations", () => {
+        let time = 0;
+        const getTime = jest.fn(() => time);
+        const durations = [10, 20, 30, 40];
+        let callCount = 0;
+        const fn = jest.fn(() => {
+            // Warmup iterations take 1000
+            time += callCount < 2 ? 1000 : durations[callCount - 2];
+            ++callCount;
+        });
+
+        const result = benchmark(fn, {
+            warmupIterations: 2,
+            iterations: 4,
+            getSystemTime: getTime,
+            label: "fn"
+        });
+
+        expect(fn).toHaveBeenCalledTimes(6);
+        expect(result.iterations).toBe(4);
+        expect(result.totalTime).toBe(100);
+        expect(result.mean).toBe(25);
+        expect(result.opsPerSecond).toBe(40);
+        expect(result.samples).toEqual([10, 20, 30, 40]);
+        expect(result.stats.median).toBe(25);
+        // Sample standard deviation is sqrt(500 / 3); t-value for 3 degrees of freedom
+        expect(result.marginOfError).toBeCloseTo(
+            (3.182 * Math.sqrt(500 / 3)) / 2
+        );
+        expect(result.relativeMarginOfError).toBeCloseTo(
+            (result.marginOfError / 25) * 100
+        );
+        expect(result.stopwatch.getSlicesByLabel("fn").length).toBe(4);
+        expect(result.stopwatch.isStopped()).toBe(true);
+    });
+
+    test("fixed time", () => {
+        let time = 0;
+        const fn = jest.fn(() => {
+            time += 30;
+        });
+
+        const result = benchmark(fn, {
+            warmupIterations: 0,
+            time: 100,
+            getSystemTime: () => time,
+            unitsPerSecond: 1
+        });
+
+        expect(fn).toHaveBeenCalledTimes(4);
+        expect(result.iterations).toBe(4);
+        expect(result.totalTime).toBe(120);
+        expect(result.opsPerSecond).toBeCloseTo(1 / 30);
+    });
+
+    test("always measures at least one iteration", () => {
+        const result = benchmark(() => undefined, {
+            warmupIterations: 0,
+            time: 0,
+            getSystemTime: () => 0
+        });
+
+        expect(result.iterations).toBe(1);
+        expect(result.marginOfError).toBe(0);
+    });
+
+    test("zero mean time", () => {
+        const result = benchmark(() => undefined, {
+            iterations: 3,
+            getSystemTime: () => 0
+        });
+
+        expect(result.mean).toBe(0);
+        expect(result.opsPerSecond).toBe(0);
+    });
+
+    test("rejects invalid options", () => {
+        const fn = jest.fn();
+
+        expect(() => benchmark(fn, { warmupIterations: 0.5 })).toThrowError(
+            "Invalid warmupIterations: 0.5"
+        );
+        expect(() => benchmark(fn, { warmupIterations: -1 })).toThrowError(
+            "Invalid warmupIterations: -1"
+        );
+        expect(() => benchmark(fn, { iterations: 1.5 })).toThrowError(
+            "Invalid iterations: 1.5"
+        );
+        expect(() => benchmark(fn, { iterations: Infinity })).toThrowError(
+            "Invalid iterations: Infinity"
+        );
+        expect(() => benchmark(fn, { time: NaN })).toThrowError(
+            "Invalid time: NaN"
+        );
+        expect(() => benchmark(fn, { time: -1 })).toThrowError(
+            "Invalid time: -1"
+        );
+        expect(() => benchmark(fn, { unitsPerSecond: 0 })).toThrowError(
+            "Invalid unitsPerSecond: 0"
+        );
+        expect(() => benchmark(fn, { unitsPerSecond: NaN })).toThrowError(
+            "Invalid unitsPerSecond: NaN"
+        );
+        expect(fn).not.toHaveBeenCalled();
+    });
+
+    test("async functions", async () => {
+        let time = 0;
+        const fn = jest.fn(() => {
+            time += 10;
+            return Promise.resolve();
+        });
+
+        const result = await benchmark(fn, {
+            warmupIterations: 1,
+            iterations: 3,
+            getSystemTime: () => time
+        });
+
+        expect(fn).toHaveBeenCalledTimes(4);
+        expect(result.samples).toEqual([10, 10, 10]);
+        expect(result.marginOfError).toBe(0);
+    });
+
+    test("errors are propagated", async () => {
+        expect(() =>
+            benchmark(() => {
+                throw new Error("sync");
+            })
+        ).toThrow("sync");
+
+        await expect(
+            benchmark(() => Promise.reject(new Error("async")))
+        ).rejects.toThrow("async");
+    });
+
+    test("uses real time by default", () => {
+        const result = benchmark(() => undefined, {
+            warmupIterations: 1,
+            time: 5
+        });
+
+        expect(result.iterations).toBeGreaterThan(0);
+        expect(result.totalTime).toBeGreaterThanOrEqual(5);
+    });
+});
@@ -0,0 +1,59 @@
+import {
+    createHrtimeTimeGetter,
+    createPerformanceNowTimeGetter,
+    getBestSystemTimeGetter,
+    isHrtimeSupported,
+    isPerformanceNowSupported,
+    Stopwatch
+} from "../src";
+import { createHrtimeBigIntTimeGetter } from "../src/bigint";
+
+describe("clocks", () => {
+    test("performance.now()", () => {
+        expect(isPerformanceNowSupported()).toBe(true);
+
+        const getTime = createPerformanceNowTimeGetter();
+        const time1 = getTime();
+        const time2 = getTime();
+
+        expect(typeof time1).toBe("number");
+        expect(time2).toBeGreaterThanOrEqual(time1);
+    });
+
+    test("process.hrtime.bigint()", () => {
+        expect(isHrtimeSupported()).toBe(true);
+
+        const getNanoseconds = createHrtimeBigIntTimeGetter();
+        const time1 = getNanoseconds();
+        const time2 = getNanoseconds();
+
+        expect(typeof time1).toBe("bigint");
+        expect(time2 >= time1).toBe(true);
+
+        const getTime = createHrtimeTimeGetter();
+        const time3 = getTime();
+
+        expect(typeof time3).toBe("number");
+        expect(time3).toBeGreaterThanOrEqual(0);
+        // Relative to creation of the getter
+        expect(time3).toBeLessThan(1000);
+    });
+
+    test("getBestSystemTimeGetter", (done) => {
+        const getTime = getBestSystemTimeGetter();
+
+        expect(getTime).not.toBe(Date.now);
+
+        Stopwatch.setDefaultSystemTimeGetter(getTime);
+        const stopwatch = new Stopwatch();
+        Stopwatch.setDefaultSystemTimeGetter();
+
+        expect((stopwatch as any).getSystemTime).toBe(getTime);
+
+        stopwatch.start();
+        setTimeout(() => {
+            expect(stopwatch.getTime()).toBeGreaterThanOrEqual(49);
+            done();
+        }, 50);
+    });
+});
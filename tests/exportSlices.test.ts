@@ -0,0 +1,124 @@
+import { exportSlices, Stopwatch } from "../src";
+import { createManualStopwatch } from "./helpers";
+
+describe("exportSlices", () => {
+    test("CSV with defaults", () => {
+        const { stopwatch, clock } = createManualStopwatch();
+
+        stopwatch.start();
+        clock.set(2500);
+        stopwatch.slice("load, parse");
+        clock.set(2750);
+        stopwatch.slice();
+        clock.set(3000);
+
+        expect(exportSlices(stopwatch)).toBe(
+            [
+                "index,label,startTime,endTime,duration,formattedDuration",
+                '1,"load, parse",0,1500,1500,00:00:01.500',
+                "2,,1500,1750,250,00:00:00.250",
+                "",
+                "Total time,2000,00:00:02.000",
+                "State,RUNNING"
+            ].join("\n")
+        );
+    });
+
+    test("TSV with options", () => {
+        const { stopwatch, clock } = createManualStopwatch();
+
+        stopwatch.start();
+        clock.set(2500);
+        stopwatch.slice("load, parse");
+        clock.set(2750);
+        stopwatch.slice();
+        clock.set(3000);
+
+        expect(
+            exportSlices(stopwatch, {
+                format: "tsv",
+                columns: ["label", "duration", "formattedDuration"],
+                includePending: true,
+                summary: false,
+                pattern: "s.S",
+                lineSeparator: "\r\n"
+            })
+        ).toBe(
+            [
+                "label\tduration\tformattedDuration",
+                "load, parse\t1500\t1.5",
+                "\t250\t0.2",
+                "\t250\t0.2"
+            ].join("\r\n")
+        );
+    });
+
+    test("without header, pending slice ends at total time", () => {
+        const { stopwatch, clock } = createManualStopwatch();
+
+        stopwatch.start();
+        clock.set(2500);
+        stopwatch.slice("load, parse");
+        clock.set(2750);
+        stopwatch.slice();
+        clock.set(3000);
+
+        stopwatch.stop();
+        clock.set(9000);
+
+        expect(
+            exportSlices(stopwatch, {
+                columns: ["index", "endTime"],
+                header: false,
+                includePending: true
+            })
+        ).toBe(
+            [
+                "1,1500",
+                "2,1750",
+                "3,2000",
+                "",
+                "Total time,2000,00:00:02.000",
+                "State,STOPPED"
+            ].join("\n")
+        );
+    });
+
+    test("escaping", () => {
+        const getTime = jest.fn();
+        const stopwatch = new Stopwatch(getTime);
+
+        getTime.mockReturnValue(0);
+        stopwatch.start();
+        stopwatch.slice('say "hi"');
+        stopwatch.slice("two\nlines");
+        stopwatch.slice("tab\there");
+
+        const options = {
+            columns: ["label" as const],
+            header: false,
+            summary: false
+        };
+
+        expect(exportSlices(stopwatch, options)).toBe(
+            ['"say ""hi"""', '"two\nlines"', "tab\there"].join("\n")
+        );
+        expect(exportSlices(stopwatch, { ...options, format: "tsv" })).toBe(
+            ['"say ""hi"""', '"two\nlines"', '"tab\there"'].join("\n")
+        );
+    });
+
+    test("IDLE", () => {
+        const stopwatch = new Stopwatch(jest.fn());
+
+        expect(exportSlices(stopwatch, { includePending: true })).toBe(
+            [
+                "index,label,startTime,endTime,duration,formattedDuration",
+                "1,,0,0,0,00:00:00.000",
+                "",
+                "Total time,0,00:00:00.000",
+                "State,IDLE"
+            ].join("\n")
+        );
+    });
+});
@@ -0,0 +1,220 @@
+import { exportTrace, Stopwatch } from "../src";
+import { createManualStopwatch } from "./helpers";
+
+describe("exportTrace", () => {
+    test("slices and pauses", () => {
+        const { stopwatch, clock } = createManualStopwatch();
+
+        stopwatch.start();
+        clock.set(1500);
+        stopwatch.slice("load", { size: 3 });
+        clock.set(1700);
+        stopwatch.stop(true, "parse");
+        clock.set(2000);
+        stopwatch.start();
+        clock.set(2300);
+        stopwatch.slice();
+        clock.set(2400);
+
+        expect(exportTrace([stopwatch])).toEqual({
+            traceEvents: [
+                {
+                    name: "load",
+                    cat: "stopwatch",
+                    ph: "X",
+                    ts: 1000000,
+                    dur: 500000,
+                    pid: 1,
+                    tid: 1,
+                    args: {
+                        number: 1,
+                        startTime: 0,
+                        endTime: 500,
+                        duration: 500,
+                        metadata: { size: 3 }
+                    }
+                },
+                {
+                    name: "parse",
+                    cat: "stopwatch",
+                    ph: "X",
+                    ts: 1500000,
+                    dur: 200000,
+                    pid: 1,
+                    tid: 1,
+                    args: {
+                        number: 2,
+                        startTime: 500,
+                        endTime: 700,
+                        duration: 200
+                    }
+                },
+                {
+                    // Starts when the stopwatch resumed, not when it was stopped
+                    name: "Slice 3",
+                    cat: "stopwatch",
+                    ph: "X",
+                    ts: 2000000,
+                    dur: 300000,
+                    pid: 1,
+                    tid: 1,
+                    args: {
+                        number: 3,
+                        startTime: 700,
+                        endTime: 1000,
+                        duration: 300
+                    }
+                },
+                {
+                    name: "Paused",
+                    cat: "stopwatch.pause",
+                    ph: "X",
+                    ts: 1700000,
+                    dur: 300000,
+                    pid: 1,
+                    tid: 1,
+                    args: { time: 700 }
+                }
+            ]
+        });
+    });
+
+    test("slice spanning a pause", () => {
+        const { stopwatch, clock } = createManualStopwatch();
+
+        stopwatch.start();
+        clock.set(1100);
+        stopwatch.stop();
+        clock.set(1400);
+        stopwatch.start();
+        clock.set(1450);
+        stopwatch.slice("span");
+
+        const [slice, pause] = exportTrace([stopwatch]).traceEvents;
+
+        expect(slice).toMatchObject({ name: "span", ts: 1000000, dur: 450000 });
+        expect(slice.args).toMatchObject({ duration: 150 });
+        expect(pause).toMatchObject({
+            name: "Paused",
+            ts: 1100000,
+            dur: 300000
+        });
+    });
+
+    test("multiple stopwatches with names and IDs", () => {
+        const { stopwatch, clock } = createManualStopwatch();
+
+        stopwatch.start();
+        clock.set(1500);
+        stopwatch.slice("load", { size: 3 });
+        clock.set(1700);
+        stopwatch.stop(true, "parse");
+        clock.set(2000);
+        stopwatch.start();
+        clock.set(2300);
+        stopwatch.slice();
+        clock.set(2400);
+        const other = new Stopwatch(clock.now);
+        const parent = new Stopwatch(clock.now);
+        const child = parent.child("child");
+
+        other.start();
+        clock.set(2500);
+        other.slice("other");
+
+        const trace = exportTrace(
+            [
+                { stopwatch: stopwatch, name: "main", pid: 7 },
+                { stopwatch: other, tid: 5 },
+                child
+            ],
+            { pid: 3, category: "app", includePauses: false }
+        );
+
+        expect(
+            trace.traceEvents.map((event) => [
+                event.name,
+                event.ph,
+                event.pid,
+                event.tid,
+                event.cat
+            ])
+        ).toEqual([
+            ["thread_name", "M", 7, 1, undefined],
+            ["load", "X", 7, 1, "app"],
+            ["parse", "X", 7, 1, "app"],
+            ["Slice 3", "X", 7, 1, "app"],
+            ["other", "X", 3, 5, "app"],
+            ["thread_name", "M", 3, 3, undefined]
+        ]);
+        expect(trace.traceEvents[0].args).toEqual({ name: "main" });
+        expect(trace.traceEvents[5].args).toEqual({ name: "child" });
+    });
+
+    test("units, time origin, and pending slice", () => {
+        const { stopwatch, clock } = createManualStopwatch();
+
+        stopwatch.start();
+        clock.set(1500);
+        stopwatch.slice("load", { size: 3 });
+        clock.set(1700);
+        stopwatch.stop(true, "parse");
+        clock.set(2000);
+        stopwatch.start();
+        clock.set(2300);
+        stopwatch.slice();
+        clock.set(2400);
+        const events = exportTrace([stopwatch], {
+            unitsPerSecond: 1e6,
+            timeOrigin: 1000,
+            includePending: true,
+            includePauses: false
+        }).traceEvents;
+
+        expect(events.map((event) => [event.ts, event.dur])).toEqual([
+            [0, 500],
+            [500, 200],
+            [1000, 300],
+            [1300, 100]
+        ]);
+        expect(events[3].name).toBe("Slice 4");
+    });
+
+    test("slice numbers account for discarded slices", () => {
+        const { stopwatch, clock } = createManualStopwatch({
+            maxRetainedSlices: 1
+        });
+
+        stopwatch.start();
+        clock.set(1100);
+        stopwatch.slice();
+        clock.set(1300);
+        stopwatch.slice();
+
+        expect(exportTrace([stopwatch]).traceEvents).toEqual([
+            expect.objectContaining({ name: "Slice 2", ts: 1100000 })
+        ]);
+    });
+
+    test("idle stopwatch", () => {
+        expect(exportTrace([new Stopwatch()])).toEqual({ traceEvents: [] });
+    });
+
+    test("JSON serialization", () => {
+        const { stopwatch, clock } = createManualStopwatch();
+
+        stopwatch.start();
+        clock.set(1500);
+        stopwatch.slice("load", { size: 3 });
+        clock.set(1700);
+        stopwatch.stop(true, "parse");
+        clock.set(2000);
+        stopwatch.start();
+        clock.set(2300);
+        stopwatch.slice();
+        clock.set(2400);
+        const trace = exportTrace([stopwatch]);
+
+        expect(JSON.parse(JSON.stringify(trace))).toEqual(trace);
+    });
+});
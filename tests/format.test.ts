@@ -0,0 +1,131 @@
+import {
+    formatDuration,
+    formatHumanizedDuration,
+    formatIsoDuration,
+    Stopwatch
+} from "../src";
+
+const HOUR = 3600000;
+const MINUTE = 60000;
+const SECOND = 1000;
+
+describe("formatDuration", () => {
+    test("default pattern", () => {
+        expect(formatDuration(0)).toBe("00:00:00.000");
+        expect(formatDuration(HOUR + 2 * MINUTE + 3 * SECOND + 45)).toBe(
+            "01:02:03.045"
+        );
+        expect(formatDuration(123 * HOUR)).toBe("123:00:00.000");
+    });
+
+    test("largest unit absorbs larger units", () => {
+        expect(formatDuration(75 * MINUTE + 2 * SECOND, "m:ss")).toBe("75:02");
+        expect(formatDuration(75 * MINUTE + 2 * SECOND, "s")).toBe("4502");
+        expect(formatDuration(5 * MINUTE + 2 * SECOND, "mm:ss")).toBe("05:02");
+    });
+
+    test("fractional seconds", () => {
+        expect(formatDuration(1234, "s.S")).toBe("1.2");
+        expect(formatDuration(1234, "s.SS")).toBe("1.23");
+        expect(formatDuration(1005, "s.SSS")).toBe("1.005");
+        expect(formatDuration(1234, "ss.SSSSSS")).toBe("01.234000");
+    });
+
+    test("literal text", () => {
+        expect(formatDuration(62 * SECOND, "m[m] s[s]")).toBe("1m 2s");
+        expect(formatDuration(62 * SECOND, "m [minutes]")).toBe("1 minutes");
+    });
+
+    test("rounding", () => {
+        expect(formatDuration(1999, "s")).toBe("1");
+        expect(formatDuration(1999, "s", { rounding: "floor" })).toBe("1");
+        expect(formatDuration(1999, "s", { rounding: "round" })).toBe("2");
+        expect(formatDuration(1001, "s", { rounding: "ceil" })).toBe("2");
+        expect(formatDuration(59999, "m:ss", { rounding: "round" })).toBe(
+            "1:00"
+        );
+        expect(formatDuration(89 * SECOND, "m", { rounding: "round" })).toBe(
+            "1"
+        );
+        expect(formatDuration(90 * SECOND, "m", { rounding: "round" })).toBe(
+            "2"
+        );
+    });
+
+    test("negative durations", () => {
+        expect(formatDuration(-62 * SECOND, "m:ss")).toBe("-1:02");
+        expect(
+            formatDuration(-62 * SECOND, "m:ss", { negative: "clamp" })
+        ).toBe("0:00");
+        // Negative values that round to zero have no sign
+        expect(formatDuration(-1, "s")).toBe("0");
+    });
+
+    test("custom units", () => {
+        expect(
+            formatDuration(1234567890, "s.SSSSSS", { unitsPerSecond: 1e9 })
+        ).toBe("1.234567");
+        expect(formatDuration(90, "m:ss", { unitsPerSecond: 1 })).toBe("1:30");
+    });
+});
+
+describe("formatIsoDuration", () => {
+    test("components", () => {
+        expect(formatIsoDuration(0)).toBe("PT0S");
+        expect(formatIsoDuration(MINUTE + 2345)).toBe("PT1M2.345S");
+        expect(formatIsoDuration(HOUR)).toBe("PT1H");
+        expect(formatIsoDuration(HOUR + 500)).toBe("PT1H0.5S");
+        expect(formatIsoDuration(25 * HOUR + 3 * MINUTE)).toBe("PT25H3M");
+    });
+
+    test("options", () => {
+        expect(formatIsoDuration(-1500)).toBe("-PT1.5S");
+        expect(formatIsoDuration(1234, { fractionDigits: 1 })).toBe("PT1.2S");
+        expect(
+            formatIsoDuration(1250, { fractionDigits: 1, rounding: "round" })
+        ).toBe("PT1.3S");
+        expect(formatIsoDuration(1234, { fractionDigits: 0 })).toBe("PT1S");
+    });
+});
+
+describe("formatHumanizedDuration", () => {
+    test("components", () => {
+        expect(formatHumanizedDuration(0)).toBe("0s");
+        expect(
+            formatHumanizedDuration(HOUR + 2 * MINUTE + 3 * SECOND + 456)
+        ).toBe("1h 2m 3.4s");
+        expect(formatHumanizedDuration(2 * MINUTE)).toBe("2m");
+        expect(formatHumanizedDuration(HOUR + 3000)).toBe("1h 3s");
+        expect(formatHumanizedDuration(40)).toBe("0s");
+    });
+
+    test("options", () => {
+        expect(formatHumanizedDuration(-1500)).toBe("-1.5s");
+        expect(formatHumanizedDuration(3456, { fractionDigits: 3 })).toBe(
+            "3.456s"
+        );
+        expect(formatHumanizedDuration(3456, { rounding: "round" })).toBe(
+            "3.5s"
+        );
+        expect(formatHumanizedDuration(3500, { fractionDigits: 3 })).toBe(
+            "3.5s"
+        );
+    });
+});
+
+describe("Stopwatch#format", () => {
+    test("formats the current stopwatch time", () => {
+        const getTime = jest.fn();
+        const stopwatch = new Stopwatch(getTime);
+
+        expect(stopwatch.format()).toBe("00:00:00.000");
+
+        getTime.mockReturnValue(1000);
+        stopwatch.start();
+        getTime.mockReturnValue(1000 + 62 * SECOND + 345);
+
+        expect(stopwatch.format()).toBe("00:01:02.345");
+        expect(stopwatch.format("m:ss")).toBe("1:02");
+        expect(stopwatch.format("m:ss", { rounding: "round" })).toBe("1:02");
+    });
+});
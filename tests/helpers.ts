@@ -0,0 +1,48 @@
+import { ManualClock, Stopwatch } from "../src";
+
+/**
+ * A fake {@link Stopwatch.ScheduleFunc} that records scheduled callbacks
+ * so that tests can run them on demand.
+ */
+export function createFakeSchedule(): {
+    schedule: jest.Mock<Stopwatch.CancelFunc, [() => void, number]>;
+    runPending(): void;
+    pendingCount(): number;
+} {
+    let pending: (() => void)[] = [];
+
+    const schedule = jest.fn((callback: () => void, delay: number) => {
+        pending.push(callback);
+
+        return () => {
+            pending = pending.filter((item) => item !== callback);
+        };
+    });
+
+    return {
+        schedule: schedule,
+        runPending: () => {
+            const callbacks = pending;
+            pending = [];
+            callbacks.forEach((callback) => callback());
+        },
+        pendingCount: () => pending.length
+    };
+}
+
+/**
+ * Creates a stopwatch driven by a ManualClock that starts at 1000, including the
+ * stopwatch's scheduled checks (see {@link Stopwatch.Options#schedule}).
+ * @param options - Optional stopwatch options.
+ */
+export function createManualStopwatch(
+    options: Stopwatch.Options = {}
+): { stopwatch: Stopwatch; clock: ManualClock } {
+    const clock = new ManualClock(1000);
+    const stopwatch = new Stopwatch(clock.now, {
+        schedule: clock.schedule,
+        ...options
+    });
+
+    return { stopwatch, clock };
+}
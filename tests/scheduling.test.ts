@@ -0,0 +1,37 @@
+import { defaultScheduleFunc } from "../src/scheduling";
+
+describe("defaultScheduleFunc", () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    test("schedules and cancels with setTimeout", () => {
+        const callback = jest.fn();
+        const cancel = defaultScheduleFunc(callback, 100);
+
+        expect(setTimeout).toHaveBeenLastCalledWith(expect.any(Function), 100);
+        cancel();
+        jest.advanceTimersByTime(100);
+        expect(callback).not.toHaveBeenCalled();
+    });
+
+    test("clamps delays longer than setTimeout supports", () => {
+        const callback = jest.fn();
+
+        // 30 days
+        defaultScheduleFunc(callback, 30 * 24 * 60 * 60 * 1000);
+
+        expect(setTimeout).toHaveBeenLastCalledWith(
+            expect.any(Function),
+            2147483647
+        );
+        jest.advanceTimersByTime(2147483646);
+        expect(callback).not.toHaveBeenCalled();
+        jest.advanceTimersByTime(1);
+        expect(callback).toHaveBeenCalledTimes(1);
+    });
+});
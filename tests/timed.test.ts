@@ -0,0 +1,263 @@
+import { Stopwatch, timed } from "../src";
+
+describe("@timed", () => {
+    test("sync methods record slices on a per-class stopwatch", () => {
+        let time = 0;
+        const getTime = jest.fn(() => time);
+
+        class Service {
+            @timed({ getSystemTime: getTime })
+            public add(a: number, b: number): number {
+                time += 10;
+                return a + b;
+            }
+
+            @timed({ label: "multiply" })
+            public mul(a: number, b: number): number {
+                time += 5;
+                return a * b;
+            }
+        }
+
+        const service = new Service();
+        const stopwatch = timed.getStopwatch(service)!;
+
+        expect(timed.getStopwatch(Service)).toBe(stopwatch);
+        expect(stopwatch.isIdle()).toBe(true);
+
+        expect(service.add(1, 2)).toBe(3);
+        expect(stopwatch.isStopped()).toBe(true);
+
+        time += 1000;
+
+        expect(service.mul(3, 4)).toBe(12);
+        expect(service.add(2, 2)).toBe(4);
+
+        expect(stopwatch.getCompletedSlices()).toEqual([
+            { startTime: 0, endTime: 10, duration: 10, label: "add" },
+            { startTime: 10, endTime: 15, duration: 5, label: "multiply" },
+            { startTime: 15, endTime: 25, duration: 10, label: "add" }
+        ]);
+        expect(stopwatch.getTime()).toBe(25);
+    });
+
+    test("getStopwatch() of an undecorated class", () => {
+        class Plain {}
+
+        expect(timed.getStopwatch(Plain)).toBeUndefined();
+    });
+
+    test("getStopwatch() of a subclass", () => {
+        let time = 0;
+
+        class Base {
+            @timed({ getSystemTime: () => time })
+            public work(): void {
+                time += 3;
+            }
+        }
+
+        class Sub extends Base {}
+
+        const sub = new Sub();
+
+        sub.work();
+
+        expect(timed.getStopwatch(sub)).toBe(timed.getStopwatch(Base));
+        expect(timed.getStopwatch(Sub)!.getSlicesByLabel("work")).toEqual([
+            { startTime: 0, endTime: 3, duration: 3, label: "work" }
+        ]);
+    });
+
+    test("static methods", () => {
+        let time = 0;
+
+        class Util {
+            @timed({ getSystemTime: () => time })
+            public static work(): void {
+                time += 7;
+            }
+        }
+
+        Util.work();
+
+        expect(timed.getStopwatch(Util)!.getSlicesByLabel("work")).toEqual([
+            { startTime: 0, endTime: 7, duration: 7, label: "work" }
+        ]);
+    });
+
+    test("reporter and failures", () => {
+        let time = 0;
+        const reporter = jest.fn();
+        const error = new Error("boom");
+
+        class Service {
+            @timed({ getSystemTime: () => time, reporter: reporter })
+            public run(fail: boolean): string {
+                time += 3;
+
+                if (fail) {
+                    throw error;
+                }
+
+                return "ok";
+            }
+        }
+
+        const service = new Service();
+
+        expect(service.run(false)).toBe("ok");
+        expect(() => service.run(true)).toThrow(error);
+
+        expect(reporter).toHaveBeenCalledTimes(2);
+        expect(reporter.mock.calls[0][0]).toMatchObject({
+            label: "run",
+            duration: 3,
+            failed: false,
+            slice: { startTime: 0, endTime: 3, duration: 3, label: "run" }
+        });
+        expect(reporter.mock.calls[1][0]).toMatchObject({
+            label: "run",
+            duration: 3,
+            failed: true,
+            error: error
+        });
+        expect(timed.getStopwatch(service)!.isStopped()).toBe(true);
+    });
+
+    test("async methods are measured until the Promise settles", async () => {
+        let time = 0;
+        const reporter = jest.fn();
+        let resolveWork: (value: string) => void = () => undefined;
+        let rejectWork: (reason: unknown) => void = () => undefined;
+
+        class Service {
+            @timed({ getSystemTime: () => time, reporter: reporter })
+            public work(): Promise<string> {
+                return new Promise<string>((resolve, reject) => {
+                    resolveWork = resolve;
+                    rejectWork = reject;
+                });
+            }
+        }
+
+        const service = new Service();
+        const stopwatch = timed.getStopwatch(service)!;
+
+        const resolved = service.work();
+        expect(stopwatch.isRunning()).toBe(true);
+        time += 20;
+        resolveWork("done");
+        await expect(resolved).resolves.toBe("done");
+
+        const rejected = service.work();
+        time += 30;
+        rejectWork("nope");
+        await expect(rejected).rejects.toBe("nope");
+
+        expect(stopwatch.isStopped()).toBe(true);
+        expect(
+            stopwatch.getCompletedSlices().map((slice) => slice.duration)
+        ).toEqual([20, 30]);
+        expect(reporter.mock.calls[1][0]).toMatchObject({
+            duration: 30,
+            failed: true,
+            error: "nope"
+        });
+    });
+
+    test("overlapping invocations report exact durations", async () => {
+        let time = 0;
+        const durations: number[] = [];
+        const resolvers: (() => void)[] = [];
+
+        class Service {
+            @timed({
+                getSystemTime: () => time,
+                reporter: (report) => durations.push(report.duration)
+            })
+            public work(): Promise<void> {
+                return new Promise<void>((resolve) => resolvers.push(resolve));
+            }
+        }
+
+        const service = new Service();
+        const stopwatch = timed.getStopwatch(service)!;
+
+        const first = service.work();
+        time += 10;
+        const second = service.work();
+        time += 10;
+        resolvers[0]();
+        await first;
+
+        expect(stopwatch.isRunning()).toBe(true);
+
+        time += 10;
+        resolvers[1]();
+        await second;
+
+        expect(durations).toEqual([20, 20]);
+        expect(stopwatch.isStopped()).toBe(true);
+        expect(stopwatch.getTime()).toBe(30);
+    });
+
+    test("supplied stopwatch that is already running is not stopped", () => {
+        let time = 0;
+        const stopwatch = new Stopwatch(() => time);
+
+        class Service {
+            @timed({ stopwatch: stopwatch, label: "task" })
+            public task(): void {
+                time += 5;
+            }
+        }
+
+        stopwatch.start();
+        time += 100;
+        new Service().task();
+
+        expect(timed.getStopwatch(Service)).toBeUndefined();
+        expect(stopwatch.isRunning()).toBe(true);
+        expect(stopwatch.getCompletedSlices()).toEqual([
+            { startTime: 0, endTime: 105, duration: 105, label: "task" }
+        ]);
+    });
+
+    test("slicePendingTime", () => {
+        let time = 0;
+        const stopwatch = new Stopwatch(() => time);
+        const reporter = jest.fn();
+
+        class Service {
+            @timed({
+                stopwatch: stopwatch,
+                label: "task",
+                slicePendingTime: true,
+                reporter: reporter
+            })
+            public task(): void {
+                time += 5;
+            }
+        }
+
+        stopwatch.start();
+        time += 100;
+        new Service().task();
+        new Service().task();
+
+        // The time before the first invocation is recorded as a separate slice
+        expect(stopwatch.getCompletedSlices()).toEqual([
+            { startTime: 0, endTime: 100, duration: 100 },
+            { startTime: 100, endTime: 105, duration: 5, label: "task" },
+            { startTime: 105, endTime: 110, duration: 5, label: "task" }
+        ]);
+        expect(reporter.mock.calls[0][0].duration).toBe(5);
+    });
+
+    test("decorating a non-method throws", () => {
+        const descriptor: PropertyDescriptor = { get: () => 1 };
+
+        expect(() => timed()({}, "value", descriptor)).toThrow();
+    });
+});
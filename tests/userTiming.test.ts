@@ -0,0 +1,227 @@
+import {
+    enableUserTiming,
+    isUserTimingSupported,
+    ManualClock,
+    Stopwatch
+} from "../src";
+
+describe("enableUserTiming", () => {
+    /**
+     * Creates a fake Performance API that records all calls.
+     * The unique ID in mark names is replaced by "#", so that the recorded calls do
+     * not depend on the order of tests.
+     */
+    function createFakePerformance(): {
+        mark: jest.Mock;
+        measure: jest.Mock;
+        calls: string[];
+    } {
+        const calls: string[] = [];
+        const withoutId = (markName: string): string =>
+            markName.replace(/:\d+:/, ":#:");
+
+        return {
+            mark: jest.fn((name: string) => {
+                calls.push(`mark ${withoutId(name)}`);
+            }),
+            measure: jest.fn((name: string, startMark: string) => {
+                calls.push(`measure ${name} from ${withoutId(startMark)}`);
+            }),
+            calls: calls
+        };
+    }
+
+    test("marks and measures with default prefixes", () => {
+        const perf = createFakePerformance();
+        const clock = new ManualClock();
+        const stopwatch = new Stopwatch(clock.now);
+
+        enableUserTiming(stopwatch, { performance: perf });
+
+        stopwatch.start();
+        stopwatch.slice("load");
+        stopwatch.slice();
+        stopwatch.stop(true, "parse");
+        stopwatch.start();
+        stopwatch.slice("render");
+        stopwatch.stop();
+
+        expect(perf.calls).toEqual([
+            "mark stopwatch:#:start",
+            "measure stopwatch:load from stopwatch:#:start",
+            "mark stopwatch:#:slice",
+            "measure stopwatch:slice from stopwatch:#:slice",
+            "mark stopwatch:#:slice",
+            "measure stopwatch:parse from stopwatch:#:slice",
+            "mark stopwatch:#:slice",
+            "measure stopwatch:run from stopwatch:#:start",
+            "mark stopwatch:#:stop",
+            "mark stopwatch:#:resume",
+            "measure stopwatch:render from stopwatch:#:slice",
+            "mark stopwatch:#:slice",
+            "measure stopwatch:run from stopwatch:#:resume",
+            "mark stopwatch:#:stop"
+        ]);
+    });
+
+    test("custom prefixes", () => {
+        const perf = createFakePerformance();
+        const stopwatch = new Stopwatch();
+
+        enableUserTiming(stopwatch, {
+            performance: perf,
+            markPrefix: "db-mark:",
+            measurePrefix: "db:"
+        });
+
+        stopwatch.start();
+        stopwatch.stop(true, "query");
+
+        expect(perf.calls).toEqual([
+            "mark db-mark:#:start",
+            "measure db:query from db-mark:#:start",
+            "mark db-mark:#:slice",
+            "measure db:run from db-mark:#:start",
+            "mark db-mark:#:stop"
+        ]);
+    });
+
+    test("reset", () => {
+        const perf = createFakePerformance();
+        const stopwatch = new Stopwatch();
+
+        enableUserTiming(stopwatch, { performance: perf });
+
+        stopwatch.start();
+        stopwatch.reset();
+        stopwatch.start(true);
+        stopwatch.slice();
+
+        expect(perf.calls).toEqual([
+            "mark stopwatch:#:start",
+            "mark stopwatch:#:start",
+            "measure stopwatch:slice from stopwatch:#:start",
+            "mark stopwatch:#:slice"
+        ]);
+    });
+
+    test("slices before the stopwatch was started are not measured", () => {
+        const perf = createFakePerformance();
+        const stopwatch = new Stopwatch();
+
+        stopwatch.start();
+        enableUserTiming(stopwatch, { performance: perf });
+        stopwatch.slice();
+        stopwatch.stop();
+
+        expect(perf.calls).toEqual([
+            "mark stopwatch:#:slice",
+            "mark stopwatch:#:stop"
+        ]);
+    });
+
+    test("unique mark names for each stopwatch", () => {
+        const perf = createFakePerformance();
+        const first = new Stopwatch();
+        const second = new Stopwatch();
+
+        enableUserTiming(first, { performance: perf });
+        enableUserTiming(second, { performance: perf });
+
+        first.start();
+        second.start();
+        first.slice();
+
+        const [firstStart, secondStart] = perf.mark.mock.calls.map(
+            (args) => args[0]
+        );
+
+        expect(firstStart).toMatch(/^stopwatch:\d+:start$/);
+        expect(secondStart).toMatch(/^stopwatch:\d+:start$/);
+        expect(firstStart).not.toBe(secondStart);
+        expect(perf.measure).toHaveBeenCalledWith(
+            "stopwatch:slice",
+            firstStart
+        );
+    });
+
+    test("cancel", () => {
+        const perf = createFakePerformance();
+        const stopwatch = new Stopwatch();
+        const cancel = enableUserTiming(stopwatch, { performance: perf });
+
+        cancel();
+        stopwatch.start();
+        stopwatch.slice();
+        stopwatch.stop();
+
+        expect(perf.calls).toEqual([]);
+    });
+
+    test("errors from the Performance API are ignored", () => {
+        const perf = {
+            mark: jest.fn(),
+            measure: jest.fn(() => {
+                throw new Error("The mark does not exist");
+            })
+        };
+        const stopwatch = new Stopwatch();
+
+        enableUserTiming(stopwatch, { performance: perf });
+
+        stopwatch.start();
+        expect(() => stopwatch.stop(true)).not.toThrow();
+        expect(perf.mark).toHaveBeenCalledTimes(3);
+        expect(perf.measure).toHaveBeenCalledTimes(2);
+        expect(stopwatch.getCompletedSlices().length).toBe(1);
+    });
+
+    describe("global Performance API", () => {
+        const perf = performance as any;
+        const originalMark = perf.mark;
+        const originalMeasure = perf.measure;
+
+        afterEach(() => {
+            perf.mark = originalMark;
+            perf.measure = originalMeasure;
+        });
+
+        test("used by default", () => {
+            const fake = createFakePerformance();
+
+            perf.mark = fake.mark;
+            perf.measure = fake.measure;
+
+            expect(isUserTimingSupported()).toBe(true);
+
+            const stopwatch = new Stopwatch();
+
+            enableUserTiming(stopwatch);
+            stopwatch.start();
+            stopwatch.stop();
+
+            expect(fake.calls).toEqual([
+                "mark stopwatch:#:start",
+                "measure stopwatch:run from stopwatch:#:start",
+                "mark stopwatch:#:stop"
+            ]);
+        });
+
+        test("not available", () => {
+            perf.mark = undefined;
+            perf.measure = undefined;
+
+            expect(isUserTimingSupported()).toBe(false);
+
+            const stopwatch = new Stopwatch();
+            const cancel = enableUserTiming(stopwatch);
+
+            stopwatch.start();
+            stopwatch.slice();
+            stopwatch.stop();
+            cancel();
+
+            expect(stopwatch.getCompletedSlices().length).toBe(1);
+        });
+    });
+});
@@ -11,3 +11,16 @@ slice.endTime; // will error if Slice definition changes
 // $ExpectError
 slice.duration = 0;
 slice.duration; // will error if Slice definition changes
+// $ExpectError
+slice.label = "label";
+slice.label; // will error if Slice definition changes
+// $ExpectError
+slice.metadata = {};
+slice.metadata; // will error if Slice definition changes
+
+// Verify that slice metadata is typed by the Stopwatch's type parameter
+declare const stopwatch: Stopwatch<{ id: number }>;
+stopwatch.slice("label", { id: 1 });
+// $ExpectError
+stopwatch.slice("label", { id: "1" });
+stopwatch.slice().metadata; // $ExpectType { id: number; } | undefined
@@ -1,3 +1,3 @@
 // Dummy index.d.ts file for running dtslint.
 // We're not actually linting a .d.ts file; only using dtslint to verify compile time types of ts-stopwatch.
-// TypeScript Version: 2.0
+// TypeScript Version: 3.0